@@ -20,6 +20,9 @@ abstract class Department {
    * methods are that we cannot access them insite the "non static parts"
    * of or class with the "this" keyword (see line 27) and the constructor
    * method cannot be static.
+   *
+   * This one is the same for every department, later each department
+   * got its own fiscal calendar (see "fiscalCalendar" bellow).
    */
   static fiscalYear = 2023;
 
@@ -43,7 +46,28 @@ abstract class Department {
   // private employees: string[] = [];
 
   // protected modifier changed later, see comment on line 92.
-  protected employees: string[] = [];
+  // protected employees: string[] = [];
+
+  /**
+   * The employees were just names at first, now they're records that
+   * can be shared by many departments (see "EmployeeRecord" bellow the
+   * class).
+   */
+  protected employees: EmployeeRecord[] = [];
+
+  // used to create the ids of the employees.
+  private static lastEmployeeId = 0;
+
+  private calendar?: FiscalCalendar;
+
+  // the keys of the periods that can't be changed anymore.
+  private closedPeriods: string[] = [];
+
+  // the summaries of the closed periods, as they were when closed.
+  private closedSummaries: PeriodSummary[] = [];
+
+  // the rules an employee must pass to join the department, in order.
+  private admissionPolicies: AdmissionPolicy[] = [];
 
   /**
    * To avoid the inconveniance of having to create a property, then pass
@@ -101,25 +125,620 @@ abstract class Department {
   */
   abstract describe(this: Department): void;
 
-  static createEmployee(name: string) {
-    return { name: name };
+  // static createEmployee(name: string) {
+  //   return { name: name };
+  // }
+
+  static createEmployee(
+    name: string,
+    options: { startDate?: Date; privileges?: string[] } = {}
+  ): EmployeeRecord {
+    return {
+      id: `E${++Department.lastEmployeeId}`,
+      name,
+      startDate: options.startDate ?? new Date(),
+      privileges: options.privileges ?? [],
+      departmentIds: [],
+    };
   }
 
-  addEmployee(employee: string) {
+  /**
+   * We can pass a record or just a name (a new record is created for
+   * it), the first department of an employee is its primary one,
+   * unless "primary" says otherwise.
+   *
+   * A department can refuse an employee (see "addAdmissionPolicy"),
+   * so we return the result of the admission, with the reason when
+   * it's rejected.
+   */
+  addEmployee(
+    employee: EmployeeRecord | string,
+    primary = false
+  ): AdmissionResult {
+    const record =
+      typeof employee === "string"
+        ? Department.createEmployee(employee)
+        : employee;
+
+    this.assertJoiningPeriodsOpen(record, `add "${record.name}"`);
+
+    // two employees can have the same name, but not the same record.
+    if (this.findEmployeeById(record.id)) {
+      throw new Error(
+        `"${record.name}" already works in the department "${this.id}".`
+      );
+    }
+
+    const admission = this.checkAdmission(record);
+
+    if (!admission.accepted) {
+      this.audit("rejectEmployee", undefined, { ...admission, record });
+      return admission;
+    }
+
     /**
      * It's not possible to change the "id" bellow, because it's a
      * read-only property (see line 13).
+     *
+     * TS still compiled it and it changed the id at runtime, so we had
+     * to comment it out when the organization (at the end of the file)
+     * started finding the departments by their ids.
      */
-    this.id = "456";
-    this.employees.push(employee);
+    // this.id = "456";
+    this.employees.push(record);
+    record.departmentIds.push(this.id);
+
+    if (primary || record.primaryDepartmentId === undefined) {
+      record.primaryDepartmentId = this.id;
+    }
+
+    this.audit("addEmployee", undefined, record);
+    return admission;
+  }
+
+  /**
+   * Instead of overwriting "addEmployee" in every department that has
+   * its own rules (like the sales department used to do), we attach
+   * the rules to the department, they can also be changed at runtime.
+   */
+  addAdmissionPolicy(policy: AdmissionPolicy) {
+    this.admissionPolicies.push(policy);
+    this.audit("addAdmissionPolicy", undefined, { name: policy.name });
+  }
+
+  // by the name of the policy, it returns if there was one to remove.
+  removeAdmissionPolicy(name: string) {
+    const index = this.admissionPolicies.findIndex(
+      (policy) => policy.name === name
+    );
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.admissionPolicies.splice(index, 1);
+    this.audit("removeAdmissionPolicy", { name }, undefined);
+    return true;
+  }
+
+  getAdmissionPolicies() {
+    return this.admissionPolicies.map((policy) => policy.name);
+  }
+
+  // the policies a new department starts with.
+  protected createAdmissionPolicies(): AdmissionPolicy[] {
+    return [];
+  }
+
+  /**
+   * "JSON.stringify" calls it when it finds a department, we leave the
+   * policies out, they're functions and JSON can't keep them.
+   */
+  toJSON() {
+    const { admissionPolicies, ...data } = this;
+    return data;
+  }
+
+  /**
+   * "fromJSON" (see the decorators file) calls it after putting the
+   * fields back, the constructor doesn't run, so a restored department
+   * starts with the policies of a new one.
+   *
+   * JSON turns the Dates into strings and the calendar into a plain
+   * object, only the department knows where they are, so it turns them
+   * back ("new Date" works with a Date too).
+   */
+  onDeserialized() {
+    this.admissionPolicies = this.createAdmissionPolicies();
+    this.employees.forEach((employee) => {
+      employee.startDate = new Date(employee.startDate);
+    });
+
+    if (this.calendar) {
+      const { startMonth, pattern } = this.calendar;
+      this.calendar = new FiscalCalendar(startMonth, pattern);
+    }
+
+    this.closedSummaries = this.closedSummaries.map(({ period, ...summary }) =>
+      Department.freezeSummary({
+        ...summary,
+        period: {
+          ...period,
+          start: new Date(period.start),
+          end: new Date(period.end),
+        },
+      })
+    );
+  }
+
+  /**
+   * It doesn't add the employee, so we can also use it to know before
+   * hand if an employee would be accepted, the first policy that
+   * rejects the employee gives the reason.
+   */
+  checkAdmission(employee: EmployeeRecord): AdmissionResult {
+    for (const policy of this.admissionPolicies) {
+      const result = policy.check(employee, this);
+
+      if (!result.accepted) {
+        return { ...result, policy: result.policy ?? policy.name };
+      }
+    }
+
+    return { accepted: true, reason: `"${employee.name}" was accepted.` };
   }
 
   printEmployeeInfo() {
     console.log(this.employees.length);
-    console.log(this.employees);
+    console.log(this.employees.map((employee) => employee.name));
+  }
+
+  /**
+   * The "id" is protected, so other classes (like "Organization") read
+   * it with this getter, without being able to change it.
+   */
+  get departmentId() {
+    return this.id;
+  }
+
+  // a copy, so the employees are still only changed by the methods.
+  getEmployees() {
+    return [...this.employees];
+  }
+
+  findEmployeeById(id: string) {
+    return this.employees.find((employee) => employee.id === id);
+  }
+
+  // names aren't unique, so there can be many employees with the name.
+  findEmployeesByName(name: string) {
+    return this.employees.filter((employee) => employee.name === name);
+  }
+
+  /**
+   * Returns the removed record (or "undefined" if there's no such
+   * employee here), if it was the primary department of the employee,
+   * the next department of the employee becomes the primary one.
+   */
+  removeEmployee(id: string) {
+    const record = this.findEmployeeById(id);
+
+    if (!record) {
+      return undefined;
+    }
+
+    this.assertPeriodOpen(`remove "${record.name}"`);
+
+    this.employees.splice(this.employees.indexOf(record), 1);
+    record.departmentIds.splice(record.departmentIds.indexOf(this.id), 1);
+
+    if (record.primaryDepartmentId === this.id) {
+      record.primaryDepartmentId = record.departmentIds[0];
+    }
+
+    this.audit("removeEmployee", record, undefined);
+    return record;
+  }
+
+  // the calendar of the department or the standard one (January).
+  get fiscalCalendar(): FiscalCalendar {
+    return this.calendar ?? FiscalCalendar.standard;
+  }
+
+  set fiscalCalendar(calendar: FiscalCalendar) {
+    if (this.closedPeriods.length > 0) {
+      throw new Error(
+        `Department "${this.id}" has closed periods, its calendar can't change.`
+      );
+    }
+
+    const before = this.fiscalCalendar;
+    this.calendar = calendar;
+    this.audit("setFiscalCalendar", before, calendar);
+  }
+
+  /**
+   * Nothing of a closed period can change anymore (employees, reports
+   * of the sales department...), it returns the key of the period.
+   */
+  closePeriod(date = new Date()) {
+    const period = this.fiscalCalendar.getPeriod(date);
+    const { key } = period;
+
+    if (this.closedPeriods.indexOf(key) === -1) {
+      this.closedSummaries.push(
+        Department.freezeSummary({
+          ...this.summarizePeriod(period),
+          closed: true,
+        })
+      );
+      this.closedPeriods.push(key);
+      this.audit("closePeriod", { key, closed: false }, { key, closed: true });
+    }
+
+    return key;
+  }
+
+  isPeriodClosed(date = new Date()) {
+    const { key } = this.fiscalCalendar.getPeriod(date);
+    return this.closedPeriods.indexOf(key) !== -1;
+  }
+
+  // the departments record their changes with this one.
+  protected audit(action: string, before: unknown, after: unknown) {
+    departmentAuditLog.record(this.id, action, before, after);
+  }
+
+  // "action" is only used in the message of the error.
+  assertPeriodOpen(action: string, date = new Date()) {
+    if (this.isPeriodClosed(date)) {
+      const { key } = this.fiscalCalendar.getPeriod(date);
+      throw new Error(
+        `The period ${key} of department "${this.id}" is closed, ` +
+          `can't ${action}.`
+      );
+    }
+  }
+
+  /**
+   * An employee counts in the headcount from its start date on, so
+   * adding one changes the period it started in too (it could be an
+   * old one), not only the current period, both must be open.
+   */
+  assertJoiningPeriodsOpen(employee: EmployeeRecord, action: string) {
+    this.assertPeriodOpen(action);
+    this.assertPeriodOpen(action, employee.startDate);
+  }
+
+  /**
+   * The summaries of each period of a fiscal year (the current one by
+   * default). An open period is summarized with what we have now, but
+   * that could change the past (e.g. removing an employee also removes
+   * it from the headcount of the periods before), so a closed period
+   * keeps the summary it had when it was closed.
+   */
+  getPeriodSummaries(fiscalYear?: number): PeriodSummary[] {
+    const year = fiscalYear ?? this.fiscalCalendar.getPeriod().fiscalYear;
+
+    return this.fiscalCalendar
+      .getPeriods(year)
+      .map(
+        (period) =>
+          this.closedSummaries.find(
+            (summary) => summary.period.key === period.key
+          ) ?? this.summarizePeriod(period)
+      );
+  }
+
+  /**
+   * The headcount at the end of the period, counting the current
+   * employees that had already started by then.
+   */
+  protected summarizePeriod(period: FiscalPeriod): PeriodSummary {
+    return {
+      period,
+      closed: this.closedPeriods.indexOf(period.key) !== -1,
+      headcount: this.employees.filter(
+        (employee) => employee.startDate < period.end
+      ).length,
+    };
+  }
+
+  private static freezeSummary(summary: PeriodSummary) {
+    Object.freeze(summary.period);
+    return Object.freeze(summary);
+  }
+}
+
+/**
+ * An employee is an "Admin" and an "Employee" (see the "elevatedEmployee"
+ * type in the advanced-types file) with an id and the ids of the
+ * departments it works in.
+ */
+interface EmployeeRecord extends Admin, Employee {
+  id: string;
+  departmentIds: string[];
+  primaryDepartmentId?: string;
+}
+
+/**
+ * A fiscal calendar splits the fiscal years in 12 periods and 4
+ * quarters, a fiscal year starts on the 1st day of "startMonth" (0 is
+ * January) and it's named after the calendar year it ends in, e.g.
+ * starting in April, the FY2024 goes from April 2023 to March 2024.
+ *
+ * With the "monthly" pattern each period is a month, with the "4-4-5"
+ * pattern each quarter has 13 weeks, split in periods of 4, 4 and 5
+ * weeks, so the periods always end on the same weekday. A year of 52
+ * weeks is 1 or 2 days shorter than a real year, so we keep those
+ * days in the last period instead of moving the start of the next
+ * fiscal year.
+ */
+type FiscalPattern = "monthly" | "4-4-5";
+
+interface FiscalPeriod {
+  fiscalYear: number;
+  period: number;
+  quarter: number;
+  start: Date;
+
+  // the start of the next period (it's not part of this one).
+  end: Date;
+
+  // e.g. "FY2024-P03".
+  key: string;
+}
+
+interface PeriodSummary {
+  period: FiscalPeriod;
+  closed: boolean;
+  headcount: number;
+}
+
+class FiscalCalendar {
+  static standard = new FiscalCalendar();
+
+  constructor(
+    public readonly startMonth = 0,
+    public readonly pattern: FiscalPattern = "monthly"
+  ) {
+    if (!Number.isInteger(startMonth) || startMonth < 0 || startMonth > 11) {
+      throw new Error(`The start month must be from 0 to 11 (${startMonth}).`);
+    }
+  }
+
+  getYearStart(fiscalYear: number) {
+    const year = this.startMonth === 0 ? fiscalYear : fiscalYear - 1;
+    return new Date(year, this.startMonth, 1);
+  }
+
+  getPeriods(fiscalYear: number): FiscalPeriod[] {
+    const yearStart = this.getYearStart(fiscalYear);
+    const year = yearStart.getFullYear();
+    const starts: Date[] = [];
+
+    for (let index = 0; index < 12; index++) {
+      if (this.pattern === "monthly") {
+        starts.push(new Date(year, this.startMonth + index, 1));
+      } else {
+        const weeksBefore = Math.floor(index / 3) * 13 + [0, 4, 8][index % 3];
+        starts.push(new Date(year, this.startMonth, 1 + weeksBefore * 7));
+      }
+    }
+
+    return starts.map((start, index) => ({
+      fiscalYear,
+      period: index + 1,
+      quarter: Math.floor(index / 3) + 1,
+      start,
+      end: starts[index + 1] ?? this.getYearStart(fiscalYear + 1),
+      key: `FY${fiscalYear}-P${index < 9 ? "0" : ""}${index + 1}`,
+    }));
+  }
+
+  // the period a date belongs to.
+  getPeriod(date = new Date()): FiscalPeriod {
+    const year = date.getFullYear();
+    const fiscalYear =
+      this.startMonth !== 0 && date.getMonth() >= this.startMonth
+        ? year + 1
+        : year;
+
+    return this.getPeriods(fiscalYear).find(
+      (period) => date >= period.start && date < period.end
+    )!;
+  }
+}
+
+/**
+ * Every change of a department is recorded in an audit log: who did
+ * it, when, to which department and the values before and after it
+ * (e.g. the employee that was added, the old and the new version of a
+ * report...).
+ *
+ * The log is "append-only", there's no way to change or remove an
+ * entry, they're frozen (all the way down) and the values are copies,
+ * so changing the objects later doesn't change the history. A Date
+ * can't be frozen, so we give copies of "at" instead.
+ */
+interface AuditEntry {
+  sequence: number;
+  at: Date;
+  actor: string;
+  departmentId: string;
+  action: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// all the filters are optional, an entry must match all the given ones.
+interface AuditQuery {
+  departmentId?: string;
+  action?: string;
+  actor?: string;
+  from?: Date;
+  to?: Date;
+}
+
+class AuditLog {
+  private entries: AuditEntry[] = [];
+
+  /**
+   * Who is doing something depends on the app (see "setPrincipalProvider"
+   * bellow), the changes made by the app itself are from "system".
+   */
+  private actorProvider: () => string | undefined = () => undefined;
+
+  setActorProvider(provider: () => string | undefined) {
+    this.actorProvider = provider;
+  }
+
+  record(
+    departmentId: string,
+    action: string,
+    before?: unknown,
+    after?: unknown
+  ) {
+    const entry: AuditEntry = Object.freeze({
+      sequence: this.entries.length + 1,
+      at: new Date(),
+      actor: this.actorProvider() ?? "system",
+      departmentId,
+      action,
+      before: AuditLog.snapshot(before),
+      after: AuditLog.snapshot(after),
+    });
+
+    this.entries.push(entry);
+    return entry;
+  }
+
+  query(query: AuditQuery = {}): AuditEntry[] {
+    return this.entries
+      .filter(
+        (entry) =>
+          (!query.departmentId || entry.departmentId === query.departmentId) &&
+          (!query.action || entry.action === query.action) &&
+          (!query.actor || entry.actor === query.actor) &&
+          (!query.from || entry.at >= query.from) &&
+          (!query.to || entry.at <= query.to)
+      )
+      .map((entry) => Object.freeze({ ...entry, at: new Date(entry.at) }));
+  }
+
+  forDepartment(departmentId: string) {
+    return this.query({ departmentId });
+  }
+
+  // one JSON object per line, easy to append to a file or to stream.
+  toJSONLines(query?: AuditQuery) {
+    return this.query(query)
+      .map((entry) => JSON.stringify(entry))
+      .join("\n");
+  }
+
+  // a deep copy through JSON (so dates become strings), frozen.
+  private static snapshot(value: unknown) {
+    return value === undefined
+      ? undefined
+      : AuditLog.deepFreeze(JSON.parse(JSON.stringify(value)));
+  }
+
+  private static deepFreeze<T>(value: T): T {
+    if (value !== null && typeof value === "object") {
+      const fields = value as Record<string, unknown>;
+      Object.keys(fields).forEach((key) => AuditLog.deepFreeze(fields[key]));
+      Object.freeze(value);
+    }
+
+    return value;
   }
 }
 
+const departmentAuditLog = new AuditLog();
+
+/**
+ * The rules that decide if an employee can join a department, each
+ * one returns if the employee was accepted and why, so whoever is
+ * adding the employee knows what happened (before the departments
+ * just ignored the employees they didn't want).
+ */
+interface AdmissionResult {
+  accepted: boolean;
+  reason: string;
+  // the name of the policy that rejected the employee.
+  policy?: string;
+}
+
+interface AdmissionPolicy {
+  name: string;
+  check(employee: EmployeeRecord, department: Department): AdmissionResult;
+}
+
+/**
+ * Bellow are the common policies, they're just functions that create
+ * the objects, any object with a "name" and a "check" method is also a
+ * policy.
+ */
+
+// the names (or ids) of the employees that can't join the department.
+function blocklistPolicy(blocked: string[]): AdmissionPolicy {
+  const name = "blocklist";
+
+  return {
+    name,
+    check: (employee) =>
+      blocked.indexOf(employee.name) !== -1 ||
+      blocked.indexOf(employee.id) !== -1
+        ? {
+            accepted: false,
+            reason: `"${employee.name}" is blocked.`,
+            policy: name,
+          }
+        : { accepted: true, reason: `"${employee.name}" isn't blocked.` },
+  };
+}
+
+function maxHeadcountPolicy(max: number): AdmissionPolicy {
+  const name = "maxHeadcount";
+
+  return {
+    name,
+    check: (employee, department) =>
+      department.getEmployees().length >= max
+        ? {
+            accepted: false,
+            reason:
+              `Department "${department.departmentId}" already has ` +
+              `${max} employees.`,
+            policy: name,
+          }
+        : { accepted: true, reason: `There's room for "${employee.name}".` },
+  };
+}
+
+// the employee must have all of them (see "Privilege" bellow).
+function requiredPrivilegesPolicy(...required: string[]): AdmissionPolicy {
+  const name = "requiredPrivileges";
+
+  return {
+    name,
+    check: (employee) => {
+      const missing = required.filter(
+        (privilege) => employee.privileges.indexOf(privilege) === -1
+      );
+
+      return missing.length
+        ? {
+            accepted: false,
+            reason: `"${employee.name}" is missing: ${missing.join(", ")}.`,
+            policy: name,
+          }
+        : { accepted: true, reason: `"${employee.name}" has the privileges.` };
+    },
+  };
+}
+
 /**
  * Bellow we were able to access the "static" method and property
  * directly on the class, without the need of instantiating it.
@@ -209,124 +828,963 @@ itDpt.addEmployee("Maria");
 console.log(itDpt);
 console.log(itDpt.describe());
 
-// Sales class
-class SalesDepartment extends Department {
-  private lastReport: string;
+/**
+ * Access control: who is using the app (the "principal") and what it
+ * is allowed to do.
+ *
+ * A principal is an "Admin" (see the advanced-types file) with a
+ * "Role" (see the obj-arr-tuple-enum file), the privileges are
+ * strings like "read" or "write".
+ *
+ * The roles are used at runtime bellow (and we get their names back
+ * with the reverse mapping, "Role[Role.ADMIN]" is "ADMIN"), so the
+ * "Role" enum of the obj-arr-tuple-enum file must already exist when
+ * this script runs.
+ */
+interface Principal extends Admin {
+  role: Role;
+  privileges: Privilege[];
 
-  /**
-   * Here basically what we're doing is storing a SalesDepartment
-   * instance in this variable, so we can use it later to create 
-   * only one instance of this class (OOP singleton pattern, see 
-   * line 143).
-   */
-  private static instance: SalesDepartment;
+  // what the principal can do besides what its role allows.
+  grants?: Grant[];
+}
 
-  /**
-   * Why use getters and setters instead of regular functions in our
-   * classes?
-   *
-   * Accessor methods (getters and setters) encapsulate our classes,
-   * keeping them safe by hiding unnecessary implementation details
-   * (adding extra logic) and only modifying certain values.
-   *
-   * They have a slight simpler sintax than regular functions and they
-   * help to make our code clearer, because at a glance we can tell
-   * what is a getter, what is a setter and what is a regular method
-   * that do something else in our class.
-   *
-   * They also secure better data quality, because they provide
-   * centralized control of how a certain field/property is initialized
-   * and provided to the user, thus making it easier to verify and
-   * debug.
-   *
-   * Getter methods must NOT have any parameters, this syntax binds an
-   * object property to a function that will be called when that 
-   * property is looked up.
-   */
-  get mostRecentReport() {
-    if (this.lastReport) {
-      /**
-       * Getter methods have to return something and are used to access
-       * the properties of an object.
-       *
-       * The object's property's value does not get calculated until
-       * it is accessed.
-       */
+/**
+ * The app decides where the current principal comes from (a login
+ * form, a token...), so it's a function we can replace, by default
+ * nobody is logged in.
+ */
+type PrincipalProvider = () => Principal | undefined;
 
-      return this.lastReport;
-    }
+let principalProvider: PrincipalProvider = () => undefined;
 
-    throw new Error("No report found!");
-  }
+function setPrincipalProvider(provider: PrincipalProvider) {
+  principalProvider = provider;
+}
 
-  /**
-   * Setter methods must have 1 parameter and are used to set/change
-   * the property of an object.
-   */
-  set mostRecentReport(report: string) {
-    if (!report) {
-      throw new Error("Please pass in a report.");
-    }
+function getCurrentPrincipal() {
+  return principalProvider();
+}
 
-    this.addReport(report);
+// the audit log records the name of the current principal.
+departmentAuditLog.setActorProvider(() => getCurrentPrincipal()?.name);
+
+// runs "fn" as another principal, then goes back to the previous one.
+function runAs<T>(principal: Principal, fn: () => T): T {
+  const previousProvider = principalProvider;
+  principalProvider = () => principal;
+
+  try {
+    return fn();
+  } finally {
+    principalProvider = previousProvider;
   }
+}
 
-  /**
-   * Here we turned the constructor private so we could make an OOP
+/**
+ * What can be done and to what, a privilege is an action on any kind
+ * of resource ("write") or on one kind only ("write:report"), TS
+ * builds all the valid combinations from the template literal type.
+ */
+type Action = "read" | "write" | "delete";
+type ResourceType = "department" | "report" | "employee";
+type Privilege = Action | `${Action}:${ResourceType}`;
+
+// e.g. { type: "report", departmentId: "789" }
+interface Resource {
+  type: ResourceType;
+  departmentId: string;
+}
+
+/**
+ * A grant is a privilege scoped to the resources of one department
+ * (all of them if there's no "departmentId"), a "deny" grant wins over
+ * every "allow", so we can take a single thing away from a role.
+ */
+interface Grant {
+  privilege: Privilege;
+  departmentId?: string;
+  effect?: "allow" | "deny";
+}
+
+/**
+ * A role has its own grants plus the grants of the roles it inherits
+ * from (and of the roles they inherit from...), so an ADMIN can do
+ * everything an AUTHOR can and an AUTHOR everything READ_ONLY can.
+ */
+interface RoleDefinition {
+  inherits: Role[];
+  grants: Grant[];
+}
+
+const roleDefinitions: { [role: number]: RoleDefinition } = {
+  [Role.READ_ONLY]: { inherits: [], grants: [{ privilege: "read" }] },
+  [Role.AUTHOR]: {
+    inherits: [Role.READ_ONLY],
+    grants: [{ privilege: "write:report" }],
+  },
+  [Role.ADMIN]: {
+    inherits: [Role.AUTHOR],
+    grants: [{ privilege: "write" }, { privilege: "delete" }],
+  },
+};
+
+// the role itself and all the roles it inherits from, closest first.
+function expandRole(role: Role, expanded: Role[] = []): Role[] {
+  if (expanded.indexOf(role) !== -1) {
+    return expanded;
+  }
+
+  expanded.push(role);
+  roleDefinitions[role]?.inherits.forEach((parent) =>
+    expandRole(parent, expanded)
+  );
+
+  return expanded;
+}
+
+function hasRole(principal: Principal, role: Role) {
+  return expandRole(principal.role).indexOf(role) !== -1;
+}
+
+function privilegeMatches(
+  privilege: Privilege,
+  action: Action,
+  resource: Resource
+) {
+  const [grantedAction, resourceType] = privilege.split(":");
+  return (
+    grantedAction === action &&
+    (!resourceType || resourceType === resource.type)
+  );
+}
+
+/**
+ * The answer of "can", "reason" explains it and "grant" and "source"
+ * (e.g. "role AUTHOR") say which grant allowed or denied the action,
+ * if any.
+ */
+interface AuthorizationDecision {
+  allowed: boolean;
+  reason: string;
+  grant?: Grant;
+  source?: string;
+}
+
+function can(
+  principal: Principal | undefined,
+  action: Action,
+  resource: Resource
+): AuthorizationDecision {
+  const { type, departmentId } = resource;
+  const target = `${action} the ${type} of department ${departmentId}`;
+
+  if (!principal) {
+    return { allowed: false, reason: `nobody is logged in to ${target}` };
+  }
+
+  // all the grants of the principal and where they came from.
+  const candidates: { grant: Grant; source: string }[] = [
+    ...(principal.grants ?? []).map((grant) => ({
+      grant,
+      source: "its own grants",
+    })),
+    ...principal.privileges.map((privilege) => ({
+      grant: { privilege },
+      source: "its privileges",
+    })),
+  ];
+
+  expandRole(principal.role).forEach((role) => {
+    const source =
+      role === principal.role
+        ? `role ${Role[role]}`
+        : `role ${Role[role]} (via ${Role[principal.role]})`;
+
+    roleDefinitions[role]?.grants.forEach((grant) =>
+      candidates.push({ grant, source })
+    );
+  });
+
+  const matching = candidates.filter(
+    ({ grant }) =>
+      privilegeMatches(grant.privilege, action, resource) &&
+      (!grant.departmentId || grant.departmentId === resource.departmentId)
+  );
+
+  const denied = matching.find(({ grant }) => grant.effect === "deny");
+  const allowed = matching.find(({ grant }) => grant.effect !== "deny");
+  const decisive = denied ?? allowed;
+
+  if (!decisive) {
+    return {
+      allowed: false,
+      reason: `${principal.name} has no grant to ${target}`,
+    };
+  }
+
+  const scope = decisive.grant.departmentId
+    ? ` in department ${decisive.grant.departmentId}`
+    : "";
+
+  return {
+    allowed: !denied,
+    reason:
+      `${principal.name} ${denied ? "can't" : "can"} ${target}, ` +
+      `"${decisive.grant.privilege}"${scope} ${
+        denied ? "denied" : "allowed"
+      } by ${decisive.source}`,
+    grant: decisive.grant,
+    source: decisive.source,
+  };
+}
+
+/**
+ * The error thrown when the current principal can't do something, we
+ * extend "Error" so it still has a message and a stack, but we can
+ * tell it apart from other errors with "instanceof".
+ */
+class PermissionDeniedError extends Error {
+  constructor(
+    public readonly principal: Principal | undefined,
+    public readonly action: string,
+    public readonly reason: string
+  ) {
+    // the reason already says when nobody is logged in.
+    super(
+      principal
+        ? `${principal.name} can't ${action}: ${reason}`
+        : `Can't ${action}: ${reason}`
+    );
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/**
+ * Both decorators bellow replace the method with one that checks the
+ * current principal (and the object the method was called on) before
+ * calling the original method.
+ *
+ * They work with the legacy decorators and with the standard ones (see
+ * the "Legacy And Standard Decorators" section of the decorators file),
+ * the legacy ones receive the name and the descriptor of the method and
+ * the standard ones the method itself and a "context" with its name.
+ */
+function guardMethod(
+  method: any,
+  context: string | ClassMethodDecoratorContext,
+  descriptor: PropertyDescriptor | undefined,
+  check: (
+    principal: Principal | undefined,
+    thisArg: unknown
+  ) => string | undefined
+): any {
+  const name = typeof context === "string" ? context : String(context.name);
+  const originalMethod = descriptor ? descriptor.value : method;
+
+  const guardedMethod = function (this: any, ...args: any[]) {
+    const principal = getCurrentPrincipal();
+
+    // "check" returns why the principal can't call the method.
+    const reason = check(principal, this);
+
+    if (reason) {
+      throw new PermissionDeniedError(principal, `call "${name}"`, reason);
+    }
+
+    return originalMethod.apply(this, args);
+  };
+
+  if (!descriptor) {
+    return guardedMethod;
+  }
+
+  descriptor.value = guardedMethod;
+  return descriptor;
+}
+
+/**
+ * The principal must have one of the roles (or a role inheriting it),
+ * it doesn't look at grants, for what is done to a department (and to
+ * its reports, employees...) "@RequirePrivilege" is the one to use.
+ */
+function RequireRole(...roles: Role[]) {
+  return function (
+    method: any,
+    context: string | ClassMethodDecoratorContext,
+    descriptor?: PropertyDescriptor
+  ) {
+    return guardMethod(method, context, descriptor, (principal) => {
+      if (!principal) {
+        return "nobody is logged in";
+      }
+
+      if (!roles.some((role) => hasRole(principal, role))) {
+        const required = roles.map((role) => Role[role]).join(" or ");
+        return `the role ${required} is required`;
+      }
+    });
+  };
+}
+
+/**
+ * The principal must be allowed ("can") to do all the privileges to
+ * the department the method was called on, so the grants of its role
+ * and the grants scoped to that department count too. A privilege
+ * without a resource type ("write") is checked on the department
+ * itself.
+ *
+ * Only the methods of a department can use it, anything else has no
+ * department to check the grants with, so calling it throws instead of
+ * checking a resource that doesn't exist.
+ */
+function RequirePrivilege(...privileges: Privilege[]) {
+  return function (
+    method: any,
+    context: string | ClassMethodDecoratorContext,
+    descriptor?: PropertyDescriptor
+  ) {
+    return guardMethod(
+      method,
+      context,
+      descriptor,
+      (principal, department) => {
+        if (!(department instanceof Department)) {
+          throw new Error(
+            '"@RequirePrivilege" only works on the methods of a department.'
+          );
+        }
+
+        for (const privilege of privileges) {
+          const [action, type = "department"] = privilege.split(":") as [
+            Action,
+            ResourceType?
+          ];
+          const decision = can(principal, action, {
+            type,
+            departmentId: department.departmentId,
+          });
+
+          if (!decision.allowed) {
+            return decision.reason;
+          }
+        }
+      }
+    );
+  };
+}
+
+/**
+ * A report keeps all of its versions, the first one is what was
+ * written when the report was created and "body" and "tags" are
+ * always the same as in the last one (but in their own array).
+ *
+ * A version never changes after it's written, so it's frozen (see
+ * "freezeVersion" bellow).
+ */
+interface ReportVersion {
+  readonly version: number;
+  readonly body: string;
+  readonly tags: readonly string[];
+  readonly editedBy: string;
+  readonly editedAt: Date;
+}
+
+interface SalesReport {
+  id: string;
+  author: string;
+  createdAt: Date;
+  body: string;
+  tags: string[];
+  versions: ReportVersion[];
+}
+
+function freezeVersion(version: ReportVersion) {
+  Object.freeze(version.tags);
+  return Object.freeze(version);
+}
+
+// all the filters are optional, a report must match all the given ones.
+interface ReportSearch {
+  text?: string;
+  author?: string;
+  tag?: string;
+  from?: Date;
+  to?: Date;
+}
+
+interface SalesPeriodSummary extends PeriodSummary {
+  reports: number;
+  edits: number;
+}
+
+interface LineChange {
+  type: "added" | "removed" | "unchanged";
+  line: string;
+}
+
+interface ReportDiff {
+  lines: LineChange[];
+  addedTags: string[];
+  removedTags: string[];
+}
+
+/**
+ * Compares 2 texts line by line, it finds the longest sequence of
+ * lines both texts have in the same order (the "unchanged" ones) and
+ * everything else was removed from the first text or added to the
+ * second one.
+ */
+function diffLines(before: string, after: string): LineChange[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // common[i][j] = how many lines "a" from i and "b" from j share.
+  const common: number[][] = a.map(() => new Array(b.length + 1).fill(0));
+  common.push(new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] =
+        a[i] === b[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      changes.push({ type: "unchanged", line: a[i] });
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || common[i + 1][j] >= common[i][j + 1])
+    ) {
+      changes.push({ type: "removed", line: a[i] });
+      i++;
+    } else {
+      changes.push({ type: "added", line: b[j] });
+      j++;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * A reusable version of the singleton pattern of "SalesDepartment"
+ * (see bellow), a "multiton" keeps one instance per key (e.g. one
+ * sales department per region) and only creates it the first time
+ * someone asks for it.
+ *
+ * "create" can also return a promise (e.g. if it loads something
+ * first), in this case we must use "getAsync", and if many calls ask
+ * for the same key while it's being created, they all get the same
+ * instance.
+ */
+interface MultitonOptions<K, T> {
+  create: (key: K) => T | Promise<T>;
+
+  // cleans up an instance that was removed (timers, connections...).
+  dispose?: (instance: T, key: K) => void;
+}
+
+class Multiton<K, T> {
+  private instances = new Map<K, T>();
+  private pending = new Map<K, Promise<T>>();
+
+  /**
+   * Changes on every "reset", so an instance that was still being
+   * created during a reset is thrown away when it's ready.
+   */
+  private generation = 0;
+
+  constructor(private options: MultitonOptions<K, T>) {}
+
+  get(key: K): T {
+    if (this.instances.has(key)) {
+      return this.instances.get(key)!;
+    }
+
+    const instance = this.pending.get(key) ?? this.options.create(key);
+
+    if (instance instanceof Promise) {
+      /**
+       * We keep the promise for the next "getAsync", but nobody may ever
+       * call it, so a rejection would be unhandled, "catch" marks it as
+       * handled (the callers of "getAsync" still get the error).
+       */
+      if (!this.pending.has(key)) {
+        this.track(key, instance).catch(() => {});
+      }
+
+      throw new Error(
+        `The instance "${String(key)}" is created asynchronously, ` +
+          'use "getAsync" instead.'
+      );
+    }
+
+    this.instances.set(key, instance);
+    return instance;
+  }
+
+  getAsync(key: K): Promise<T> {
+    if (this.instances.has(key)) {
+      return Promise.resolve(this.instances.get(key)!);
+    }
+
+    const pending = this.pending.get(key);
+
+    if (pending) {
+      return pending;
+    }
+
+    const instance = this.options.create(key);
+
+    if (instance instanceof Promise) {
+      return this.track(key, instance);
+    }
+
+    this.instances.set(key, instance);
+    return Promise.resolve(instance);
+  }
+
+  has(key: K) {
+    return this.instances.has(key);
+  }
+
+  keys() {
+    return Array.from(this.instances.keys());
+  }
+
+  // the next "get" with this key creates a new instance.
+  dispose(key: K) {
+    if (!this.instances.has(key)) {
+      return false;
+    }
+
+    const instance = this.instances.get(key)!;
+    this.instances.delete(key);
+    this.options.dispose?.(instance, key);
+
+    return true;
+  }
+
+  // disposes all the instances, so each test can start from scratch.
+  reset() {
+    this.generation++;
+    this.pending.clear();
+    this.keys().forEach((key) => this.dispose(key));
+  }
+
+  private track(key: K, promise: Promise<T>) {
+    const generation = this.generation;
+
+    const tracked = promise.then(
+      (instance) => {
+        if (generation !== this.generation) {
+          this.options.dispose?.(instance, key);
+          throw new Error(`The instance "${String(key)}" was reset.`);
+        }
+
+        this.pending.delete(key);
+        this.instances.set(key, instance);
+
+        return instance;
+      },
+      (error) => {
+        // the next call tries to create it again.
+        if (generation === this.generation) {
+          this.pending.delete(key);
+        }
+
+        throw error;
+      }
+    );
+
+    this.pending.set(key, tracked);
+    return tracked;
+  }
+}
+
+// and a singleton is a multiton with a single key.
+class Singleton<T> {
+  private multiton: Multiton<null, T>;
+
+  constructor(create: () => T | Promise<T>, dispose?: (instance: T) => void) {
+    this.multiton = new Multiton<null, T>({
+      create: () => create(),
+      dispose: dispose && ((instance) => dispose(instance)),
+    });
+  }
+
+  get() {
+    return this.multiton.get(null);
+  }
+
+  getAsync() {
+    return this.multiton.getAsync(null);
+  }
+
+  reset() {
+    this.multiton.reset();
+  }
+}
+
+// Sales class
+class SalesDepartment extends Department {
+  // private lastReport: string;
+
+  /**
+   * The reports were strings at first, now they're records with all
+   * of their versions (see "SalesReport" above the class).
+   */
+  private reports: SalesReport[] = [];
+  private lastReport?: SalesReport;
+  private lastReportId = 0;
+
+  /**
+   * Here basically what we're doing is storing a SalesDepartment
+   * instance in this variable, so we can use it later to create 
+   * only one instance of this class (OOP singleton pattern, see 
+   * line 143).
+   */
+  // private static instance: SalesDepartment;
+
+  /**
+   * Later we used the "Multiton" above instead, so there's one
+   * instance per id (e.g. one per region) and the tests can reset
+   * them.
+   */
+  private static instances = new Multiton<string, SalesDepartment>({
+    create: (id) => new SalesDepartment(id, []),
+  });
+
+  /**
+   * Why use getters and setters instead of regular functions in our
+   * classes?
+   *
+   * Accessor methods (getters and setters) encapsulate our classes,
+   * keeping them safe by hiding unnecessary implementation details
+   * (adding extra logic) and only modifying certain values.
+   *
+   * They have a slight simpler sintax than regular functions and they
+   * help to make our code clearer, because at a glance we can tell
+   * what is a getter, what is a setter and what is a regular method
+   * that do something else in our class.
+   *
+   * They also secure better data quality, because they provide
+   * centralized control of how a certain field/property is initialized
+   * and provided to the user, thus making it easier to verify and
+   * debug.
+   *
+   * Getter methods must NOT have any parameters, this syntax binds an
+   * object property to a function that will be called when that 
+   * property is looked up.
+   */
+  get mostRecentReport() {
+    if (this.lastReport) {
+      /**
+       * Getter methods have to return something and are used to access
+       * the properties of an object.
+       *
+       * The object's property's value does not get calculated until
+       * it is accessed.
+       */
+
+      // the text of the report, like before the reports were records.
+      return this.lastReport.body;
+    }
+
+    throw new Error("No report found!");
+  }
+
+  /**
+   * Setter methods must have 1 parameter and are used to set/change
+   * the property of an object.
+   */
+  set mostRecentReport(report: string) {
+    if (!report) {
+      throw new Error("Please pass in a report.");
+    }
+
+    // "addReport" already records it in the audit log.
+    this.addReport(report);
+  }
+
+  /**
+   * Here we turned the constructor private so we could make an OOP
    * singleton pattern, that is a class that can ONLY be instantiated
    * once (see lines 113, 149).
    */
-  private constructor(id: string, private reports: string[]) {
+  // private constructor(id: string, private reports: string[]) {
+  //   super(id, "Sales");
+  //   this.lastReport = reports[0];
+  // }
+
+  /**
+   * The initial reports became records too, they're created without
+   * checking the principal (nobody is logged in at this point).
+   */
+  private constructor(id: string, reports: string[]) {
     super(id, "Sales");
-    this.lastReport = reports[0];
+    reports.forEach((text) => this.createReport(text, [], "system"));
+    this.lastReport = this.reports[0];
+
+    // it used to be the "addEmployee" overwrite commented out bellow.
+    this.createAdmissionPolicies().forEach((policy) =>
+      this.addAdmissionPolicy(policy)
+    );
+  }
+
+  protected createAdmissionPolicies() {
+    return [blocklistPolicy(["Zé ninguém"])];
+  }
+
+  /**
+   * The last report comes back as a copy, so we find the real one, and
+   * the versions come back as new objects (with strings instead of
+   * Dates), so we freeze them again.
+   */
+  onDeserialized() {
+    super.onDeserialized();
+    this.reports.forEach((report) => {
+      report.createdAt = new Date(report.createdAt);
+      report.versions = report.versions.map((version) =>
+        freezeVersion({ ...version, editedAt: new Date(version.editedAt) })
+      );
+    });
+    const lastReportId = this.lastReport?.id;
+    this.lastReport = this.reports.find(
+      (report) => report.id === lastReportId
+    );
   }
 
   // Here we created a method to instantiate this class only once.
-  static getInstance() {
-    // If instance already exists we return it...
-    if (this.instance) {
-      return this.instance;
-    }
+  // static getInstance() {
+  //   // If instance already exists we return it...
+  //   if (this.instance) {
+  //     return this.instance;
+  //   }
+  //
+  //   // If not we create one with the necessary arguments.
+  //   this.instance = new SalesDepartment("789", []);
+  //   return this.instance;
+  // }
 
-    /**
-     * If not we create one with the necessary arguments.
-     *
-     * Inside the class we can use the "new" keyword to instatiate
-     * itself, even the constructor being private (see line 143 and
-     * 188).
-     */
-    this.instance = new SalesDepartment("789", []);
-    return this.instance;
+  /**
+   * Now it returns the same instance for the same id ("789" is the
+   * original one).
+   *
+   * Inside the class we can use the "new" keyword to instatiate
+   * itself, even the constructor being private (see line 143 and
+   * 188), that's what the "create" function of the multiton does.
+   */
+  static getInstance(id = "789") {
+    return SalesDepartment.instances.get(id);
+  }
+
+  // only for tests, the next "getInstance" creates new departments.
+  static resetInstances() {
+    SalesDepartment.instances.reset();
   }
 
   describe() {
     console.log(`Sales Department - ID: ${this.id}`);
   }
 
-  addReport(text: string) {
-    this.reports.push(text);
-    this.lastReport = text;
+  /**
+   * Only who can write the reports of this department can add them
+   * (authors and admins by their roles, anybody else with a grant for
+   * this department).
+   */
+  @RequirePrivilege("write:report")
+  addReport(text: string, tags: string[] = []) {
+    this.assertPeriodOpen("add reports");
+
+    const author = getCurrentPrincipal()?.name ?? "unknown";
+    const report = this.createReport(text, tags, author);
+    this.lastReport = report;
+    this.audit("addReport", undefined, report);
+
+    return SalesDepartment.copyReport(report);
   }
 
-  printReports() {
-    console.log(this.reports);
+  /**
+   * Editing a report adds a new version to it, the old versions are
+   * kept, so we can see how the report changed.
+   */
+  @RequirePrivilege("write:report")
+  editReport(
+    id: string,
+    changes: { body?: string; tags?: readonly string[] }
+  ) {
+    const report = this.findReport(id);
+
+    // a report belongs to the period it was created in.
+    this.assertPeriodOpen(`edit the report "${id}"`, report.createdAt);
+
+    const version = freezeVersion({
+      version: report.versions.length + 1,
+      body: changes.body ?? report.body,
+      tags: [...(changes.tags ?? report.tags)],
+      editedBy: getCurrentPrincipal()?.name ?? "unknown",
+      editedAt: new Date(),
+    });
+
+    const before = report.versions[report.versions.length - 1];
+    report.versions.push(version);
+    report.body = version.body;
+    report.tags = [...version.tags];
+    this.audit("editReport", { id, ...before }, { id, ...version });
+
+    return SalesDepartment.copyReport(report);
   }
 
-  // Here we're overwriting the Department's class method (polymorphism).
-  addEmployee(name: string) {
-    if (name === "Zé ninguém") {
-      return;
+  /**
+   * The reports are only changed by the methods above, so we give a
+   * copy of them (the versions are frozen, they can be shared).
+   */
+  getReport(id: string) {
+    return SalesDepartment.copyReport(this.findReport(id));
+  }
+
+  private findReport(id: string) {
+    const report = this.reports.find((report) => report.id === id);
+
+    if (!report) {
+      throw new Error(`Report "${id}" not found!`);
     }
 
-    /**
-     * Here we had an error, because the "employees" property on the
-     * parent class was "private" (line 8) and even a child class
-     * cannot access a private property, so we had to change it to
-     * "protected" and now this class can also have access to that
-     * property.
-     */
-    this.employees.push(name);
+    return report;
   }
+
+  private static copyReport(report: SalesReport): SalesReport {
+    return {
+      ...report,
+      tags: [...report.tags],
+      versions: [...report.versions],
+    };
+  }
+
+  // what changed from one version of a report to another.
+  diffReport(id: string, fromVersion: number, toVersion: number): ReportDiff {
+    const { versions } = this.findReport(id);
+    const from = versions[fromVersion - 1];
+    const to = versions[toVersion - 1];
+
+    if (!from || !to) {
+      throw new Error(`Report "${id}" has only ${versions.length} versions.`);
+    }
+
+    return {
+      lines: diffLines(from.body, to.body),
+      addedTags: to.tags.filter((tag) => from.tags.indexOf(tag) === -1),
+      removedTags: from.tags.filter((tag) => to.tags.indexOf(tag) === -1),
+    };
+  }
+
+  /**
+   * The text is searched in the current version of the reports (in any
+   * case) and the dates are compared with the creation of the report.
+   */
+  searchReports(search: ReportSearch) {
+    const text = search.text?.toLowerCase();
+
+    return this.reports
+      .filter(
+        (report) =>
+          (!text || report.body.toLowerCase().indexOf(text) !== -1) &&
+          (!search.author || report.author === search.author) &&
+          (!search.tag || report.tags.indexOf(search.tag) !== -1) &&
+          (!search.from || report.createdAt >= search.from) &&
+          (!search.to || report.createdAt <= search.to)
+      )
+      .map(SalesDepartment.copyReport);
+  }
+
+  printReports() {
+    console.log(this.reports.map((report) => report.body));
+  }
+
+  // "summarizePeriod" bellow makes all of them sales summaries.
+  getPeriodSummaries(fiscalYear?: number) {
+    return super.getPeriodSummaries(fiscalYear) as SalesPeriodSummary[];
+  }
+
+  // the summary of every department, plus the reports of the period.
+  protected summarizePeriod(period: FiscalPeriod): SalesPeriodSummary {
+    const { start, end } = period;
+    const inPeriod = (date: Date) => date >= start && date < end;
+
+    return {
+      ...super.summarizePeriod(period),
+      reports: this.reports.filter((report) => inPeriod(report.createdAt))
+        .length,
+      edits: this.reports
+        .map((report) => report.versions.slice(1))
+        .reduce((all, versions) => [...all, ...versions], [])
+        .filter((version) => inPeriod(version.editedAt)).length,
+    };
+  }
+
+  private createReport(body: string, tags: string[], author: string) {
+    const createdAt = new Date();
+    const report: SalesReport = {
+      id: `R${++this.lastReportId}`,
+      author,
+      createdAt,
+      body,
+      tags: [...tags],
+      versions: [
+        freezeVersion({
+          version: 1,
+          body,
+          tags: [...tags],
+          editedBy: author,
+          editedAt: createdAt,
+        }),
+      ],
+    };
+
+    this.reports.push(report);
+    return report;
+  }
+
+  /**
+   * Here we were overwriting the Department's class method
+   * (polymorphism), but the employee was just ignored and nobody knew
+   * why, now the rule is an admission policy (see the constructor) and
+   * "addEmployee" tells us when an employee is rejected.
+   */
+  // addEmployee(employee: EmployeeRecord | string, primary = false) {
+  //   const name = typeof employee === "string" ? employee : employee.name;
+  //
+  //   if (name === "Zé ninguém") {
+  //     return;
+  //   }
+  //
+  //   /**
+  //    * Here we had an error, because the "employees" property on the
+  //    * parent class was "private" (line 8) and even a child class
+  //    * cannot access a private property, so we had to change it to
+  //    * "protected" and now this class can also have access to that
+  //    * property.
+  //    */
+  //   // this.employees.push(name);
+  //
+  //   /**
+  //    * Later the employees became records and the parent class got the
+  //    * logic to add them (duplicates, primary department...), so we
+  //    * just call it with "super".
+  //    */
+  //   super.addEmployee(employee, primary);
+  // }
 }
 
 /**
@@ -353,10 +1811,41 @@ console.log(salesDpt);
 const salesDpt2 = SalesDepartment.getInstance();
 console.log(salesDpt2);
 
-salesDpt.addEmployee("Zé ninguém"); // won't add it.
+/**
+ * Nobody is logged in, so we can't add reports yet (the setter of
+ * "mostRecentReport" calls "addReport" too).
+ */
+try {
+  salesDpt.addReport("Big sale today!");
+} catch (error) {
+  // Can't call "addReport": nobody is logged in to write the report of
+  // department 789
+  console.log(error instanceof PermissionDeniedError, error);
+}
+
+const author: Principal = {
+  name: "Clayton",
+  role: Role.AUTHOR,
+  privileges: ["read", "write"],
+};
+
+setPrincipalProvider(() => author);
+
+// won't add it: { accepted: false, reason: '"Zé ninguém" is blocked.', ... }
+console.log(salesDpt.addEmployee("Zé ninguém"));
 salesDpt.addEmployee("Manoel");
 salesDpt.addReport("Big sale today!");
 
+try {
+  runAs({ name: "Maria", role: Role.READ_ONLY, privileges: ["read"] }, () =>
+    salesDpt.addReport("Sales decreased 5% this year")
+  );
+} catch (error) {
+  // Maria can't call "addReport": Maria has no grant to write the
+  // report of department 789
+  console.log(error);
+}
+
 // Here we "call" the setter function as a regular property.
 salesDpt.mostRecentReport = "Sales increased 5% this year";
 salesDpt.printReports();
@@ -368,3 +1857,434 @@ salesDpt.describe();
  * parenthesis required.
  */
 console.log(salesDpt.mostRecentReport);
+
+/**
+ * "can" answers with the reason, so we can show the user (or log) why
+ * something was allowed or denied.
+ */
+const regionalAuthor: Principal = {
+  name: "Ana",
+  role: Role.READ_ONLY,
+  privileges: ["read"],
+  grants: [{ privilege: "write:report", departmentId: "789" }],
+};
+
+const salesReport: Resource = { type: "report", departmentId: "789" };
+
+// Ana can write the report of department 789, "write:report" in
+// department 789 allowed by its own grants
+console.log(can(regionalAuthor, "write", salesReport).reason);
+
+// Ana has no grant to write the report of department 123
+console.log(
+  can(regionalAuthor, "write", { type: "report", departmentId: "123" }).reason
+);
+
+const admin: Principal = {
+  name: "Clayton",
+  role: Role.ADMIN,
+  privileges: [],
+  grants: [
+    { privilege: "delete:employee", departmentId: "789", effect: "deny" },
+  ],
+};
+
+// ... "read" allowed by role READ_ONLY (via ADMIN)
+console.log(can(admin, "read", salesReport).reason);
+
+// Clayton can't delete the employee of department 789, "delete:employee"
+// in department 789 denied by its own grants
+console.log(
+  can(admin, "delete", { type: "employee", departmentId: "789" }).reason
+);
+
+/**
+ * "@RequirePrivilege" asks "can" too, so the grant of Ana is enough to
+ * add reports to the department 789, but not to any other one.
+ */
+try {
+  runAs(regionalAuthor, () =>
+    SalesDepartment.getInstance("791").addReport("New clients in the south")
+  );
+} catch (error) {
+  // Ana can't call "addReport": Ana has no grant to write the report of
+  // department 791
+  console.log(error);
+}
+
+/**
+ * The departments above don't know about each other, the organization
+ * registers them by id and keeps the tree of departments (a department
+ * can have a parent and many sub-departments).
+ *
+ * We keep the relations here and not in the departments, so a
+ * department doesn't need to change to be part of an organization.
+ */
+interface HeadcountRollup {
+  departmentId: string;
+  name: string;
+
+  // employees of the department itself and of all the tree under it.
+  own: number;
+  total: number;
+  children: HeadcountRollup[];
+}
+
+class Organization {
+  private departments = new Map<string, Department>();
+
+  // child id -> parent id.
+  private parentIds = new Map<string, string>();
+
+  register(department: Department, parentId?: string) {
+    const id = department.departmentId;
+
+    if (this.departments.has(id)) {
+      throw new Error(`There is already a department with the id "${id}".`);
+    }
+
+    // the parent must exist, before we store anything.
+    if (parentId !== undefined) {
+      this.getDepartment(parentId);
+    }
+
+    this.departments.set(id, department);
+
+    if (parentId !== undefined) {
+      this.setParent(id, parentId);
+    }
+  }
+
+  getDepartment(id: string) {
+    const department = this.departments.get(id);
+
+    if (!department) {
+      throw new Error(`Department "${id}" not found!`);
+    }
+
+    return department;
+  }
+
+  // "undefined" turns the department into a top level one.
+  setParent(id: string, parentId: string | undefined) {
+    this.getDepartment(id);
+
+    if (parentId === undefined) {
+      this.parentIds.delete(id);
+      return;
+    }
+
+    this.getDepartment(parentId);
+
+    // a department can't be moved under itself or its sub-departments.
+    if (parentId === id || this.getDescendantIds(id).indexOf(parentId) !== -1) {
+      throw new Error(`"${parentId}" is under "${id}", it can't be a parent.`);
+    }
+
+    this.parentIds.set(id, parentId);
+  }
+
+  getParent(id: string) {
+    const parentId = this.parentIds.get(id);
+    return parentId === undefined ? undefined : this.getDepartment(parentId);
+  }
+
+  getChildren(id: string) {
+    return this.getChildIds(id).map((childId) => this.getDepartment(childId));
+  }
+
+  // the departments without a parent.
+  getRoots() {
+    return Array.from(this.departments.values()).filter(
+      (department) => !this.parentIds.has(department.departmentId)
+    );
+  }
+
+  /**
+   * Everything that could stop the move is checked before we change
+   * anything, so the employee never ends up in no department at all.
+   */
+  moveEmployee(employeeId: string, fromId: string, toId: string) {
+    const from = this.getDepartment(fromId);
+    const to = this.getDepartment(toId);
+    const record = from.findEmployeeById(employeeId);
+
+    if (!record) {
+      throw new Error(
+        `"${employeeId}" doesn't work in department "${fromId}".`
+      );
+    }
+
+    if (to.findEmployeeById(record.id)) {
+      throw new Error(
+        `"${record.name}" already works in department "${toId}".`
+      );
+    }
+
+    from.assertPeriodOpen(`move "${record.name}" out`);
+    to.assertJoiningPeriodsOpen(record, `move "${record.name}" in`);
+
+    // a department can refuse an employee (see "addAdmissionPolicy").
+    const admission = to.checkAdmission(record);
+
+    if (!admission.accepted) {
+      throw new Error(
+        `Department "${toId}" didn't accept "${record.name}": ` +
+          admission.reason
+      );
+    }
+
+    // the new department becomes the primary one if the old one was.
+    const wasPrimary = record.primaryDepartmentId === fromId;
+    from.removeEmployee(record.id);
+    to.addEmployee(record, wasPrimary);
+  }
+
+  // the employees of the department and of all of its sub-departments.
+  getEmployeesUnder(id: string) {
+    const employees = [id, ...this.getDescendantIds(id)]
+      .map((departmentId) => this.getDepartment(departmentId).getEmployees())
+      .reduce((all, current) => [...all, ...current], []);
+
+    // someone can work in more than one of the departments.
+    return employees.filter(
+      (employee, index) => employees.indexOf(employee) === index
+    );
+  }
+
+  /**
+   * The "total" counts each employee once, like "getEmployeesUnder",
+   * so it's not the sum of the children when someone works in more
+   * than one of the departments.
+   */
+  getHeadcount(id: string): HeadcountRollup {
+    const department = this.getDepartment(id);
+    const children = this.getChildIds(id).map((childId) =>
+      this.getHeadcount(childId)
+    );
+
+    return {
+      departmentId: id,
+      name: department.name,
+      own: department.getEmployees().length,
+      total: this.getEmployeesUnder(id).length,
+      children,
+    };
+  }
+
+  /**
+   * How many employees there are in each level of the tree (the top
+   * level departments are the level 0, their children the level 1...),
+   * each employee is counted once per level.
+   */
+  getHeadcountByLevel() {
+    const levels: { departments: string[]; headcount: number }[] = [];
+    const employeesByLevel: EmployeeRecord[][] = [];
+
+    const visit = (department: Department, level: number) => {
+      levels[level] = levels[level] ?? { departments: [], headcount: 0 };
+      levels[level].departments.push(department.departmentId);
+
+      employeesByLevel[level] = employeesByLevel[level] ?? [];
+      const employees = employeesByLevel[level];
+      department.getEmployees().forEach((employee) => {
+        if (employees.indexOf(employee) === -1) {
+          employees.push(employee);
+        }
+      });
+      levels[level].headcount = employees.length;
+
+      this.getChildren(department.departmentId).forEach((child) =>
+        visit(child, level + 1)
+      );
+    };
+
+    this.getRoots().forEach((root) => visit(root, 0));
+
+    return levels;
+  }
+
+  private getChildIds(id: string) {
+    const childIds: string[] = [];
+
+    this.parentIds.forEach((parentId, childId) => {
+      if (parentId === id) {
+        childIds.push(childId);
+      }
+    });
+
+    return childIds;
+  }
+
+  private getDescendantIds(id: string): string[] {
+    return this.getChildIds(id).reduce<string[]>(
+      (descendants, childId) => [
+        ...descendants,
+        childId,
+        ...this.getDescendantIds(childId),
+      ],
+      []
+    );
+  }
+}
+
+const organization = new Organization();
+const supportDpt = new ITDepartment("124", ["Sarah"]);
+supportDpt.addEmployee("Pedro");
+
+organization.register(salesDpt);
+organization.register(itDpt);
+organization.register(supportDpt, "123"); // IT support is under IT.
+
+const joao = itDpt.findEmployeesByName("João")[0];
+organization.moveEmployee(joao.id, "123", "124");
+
+// ["Maria", "Pedro", "João"]
+console.log(
+  organization.getEmployeesUnder("123").map((employee) => employee.name)
+);
+console.log(organization.getHeadcount("123")); // own: 1, total: 3
+console.log(organization.getHeadcountByLevel()); // level 0: 2, level 1: 2
+
+try {
+  // "Zé ninguém" is not welcome in the sales department.
+  const blocked = Department.createEmployee("Zé ninguém");
+  itDpt.addEmployee(blocked);
+  organization.moveEmployee(blocked.id, "123", "789");
+} catch (error) {
+  // Department "789" didn't accept "Zé ninguém": "Zé ninguém" is blocked.
+  console.log(error);
+}
+
+/**
+ * The same record can be in many departments, Ana works in IT support
+ * too, but its primary department is sales.
+ */
+const ana = Department.createEmployee("Ana", {
+  startDate: new Date(2022, 0, 10),
+  privileges: ["read"],
+});
+
+supportDpt.addEmployee(ana);
+salesDpt.addEmployee(ana, true);
+console.log(ana.departmentIds, ana.primaryDepartmentId); // ["124", "789"] 789
+
+try {
+  supportDpt.addEmployee(ana);
+} catch (error) {
+  console.log(error); // "Ana" already works in the department "124".
+}
+
+console.log(supportDpt.findEmployeeById(ana.id) === ana); // true
+salesDpt.removeEmployee(ana.id);
+console.log(ana.primaryDepartmentId); // 124
+
+/**
+ * The reports are records now, the "author" principal is still logged
+ * in, so we can write and edit them.
+ */
+const quarterReport = salesDpt.addReport(
+  "Q1 sales: 120 units\nBest seller: PS5",
+  ["quarterly"]
+);
+
+salesDpt.editReport(quarterReport.id, {
+  body: "Q1 sales: 125 units\nBest seller: PS5\nReturns: 3",
+  tags: ["quarterly", "reviewed"],
+});
+
+console.log(salesDpt.mostRecentReport); // the text of the 2nd version.
+console.log(salesDpt.getReport(quarterReport.id).versions.length); // 2
+
+// - "Q1 sales: 120 units", + "Q1 sales: 125 units", + "Returns: 3"
+console.log(salesDpt.diffReport(quarterReport.id, 1, 2));
+
+console.log(salesDpt.searchReports({ text: "ps5", author: "Clayton" }));
+console.log(
+  salesDpt.searchReports({ tag: "reviewed", from: new Date(2023, 0) })
+);
+
+/**
+ * The sales department starts its fiscal years in April and uses the
+ * "4-4-5" pattern, the other departments keep the standard calendar.
+ */
+salesDpt.fiscalCalendar = new FiscalCalendar(3, "4-4-5");
+
+// FY2025-P02, from April 29th to May 27th of 2024.
+console.log(salesDpt.fiscalCalendar.getPeriod(new Date(2024, 4, 10)));
+
+// the reports and edits of this fiscal year, period by period.
+console.log(salesDpt.getPeriodSummaries());
+
+/**
+ * Once the current period of IT support is closed, its employees
+ * can't change until the next period.
+ */
+supportDpt.closePeriod();
+
+try {
+  supportDpt.addEmployee("Bruno");
+} catch (error) {
+  // The period FY... of department "124" is closed, can't add "Bruno".
+  console.log(error);
+}
+
+/**
+ * Each region has its own sales department now, but asking for the
+ * same id still gives us the same instance.
+ */
+const lisbonSalesDpt = SalesDepartment.getInstance("790");
+console.log(lisbonSalesDpt === SalesDepartment.getInstance("790")); // true
+console.log(lisbonSalesDpt === salesDpt); // false
+
+/**
+ * The multiton works with any class (or value), here the exchange
+ * rates are loaded only once per currency, even if many calls ask for
+ * them at the same time.
+ */
+const exchangeRates = new Multiton<string, number>({
+  create: (currency) =>
+    new Promise((resolve) =>
+      setTimeout(() => resolve(currency === "EUR" ? 1.08 : 1), 100)
+    ),
+});
+
+Promise.all([
+  exchangeRates.getAsync("EUR"),
+  exchangeRates.getAsync("EUR"),
+]).then(([rate, sameRate]) => {
+  console.log(rate, sameRate, exchangeRates.keys()); // 1.08 1.08 ["EUR"]
+
+  exchangeRates.reset();
+  console.log(exchangeRates.has("EUR")); // false
+});
+
+/**
+ * Everything that happened to the sales department so far, with who
+ * did it ("system" when nobody was logged in).
+ */
+const salesHistory = departmentAuditLog.forDepartment(salesDpt.departmentId);
+console.log(salesHistory.map(({ actor, action }) => `${actor}: ${action}`));
+
+// the edits of the reports, as JSON lines for the compliance team.
+console.log(departmentAuditLog.toJSONLines({ action: "editReport" }));
+
+/**
+ * The policies can be mixed and attached to any department, IT support
+ * only takes employees that can write and it has room for one more.
+ */
+supportDpt.addAdmissionPolicy(requiredPrivilegesPolicy("write"));
+supportDpt.addAdmissionPolicy(
+  maxHeadcountPolicy(supportDpt.getEmployees().length + 1)
+);
+
+const carla = Department.createEmployee("Carla", { privileges: ["read"] });
+const diego = Department.createEmployee("Diego", {
+  privileges: ["read", "write"],
+});
+
+// "checkAdmission" doesn't add them, it only tells us what would happen.
+console.log(supportDpt.checkAdmission(carla)); // "Carla" is missing: write.
+console.log(supportDpt.checkAdmission(diego)); // "Diego" was accepted.
+// ["requiredPrivileges", "maxHeadcount"]
+console.log(supportDpt.getAdmissionPolicies());
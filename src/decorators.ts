@@ -29,6 +29,12 @@
  * JavaScript and are available as an experimental feature of
  * TypeScript.
  *
+ * Since TS 5.0 the decorators of the JavaScript proposal (stage 3) are
+ * also supported, they're used when "experimentalDecorators" is off.
+ * This file compiles in both modes (tsconfig.json for the legacy ones
+ * and tsconfig.standard.json for the standard ones), see the "Legacy
+ * And Standard Decorators" section bellow.
+ *
  * Decorators in general are related to classes and its members and in
  * the the end they're basically functions.
  *
@@ -68,510 +74,4282 @@
  *  4) Outer Decorator Call.
  */
 
-// ==================== Class Decorator ========================
+// ==================== Reflection Metadata ========================
 /**
- * This function is a "class decorator", it's not necessarily a
- * convention, but it's common to see the name of the decorators
- * starting with a capital letter.
+ * Decorators receive the "target", the "name" of the member and (for
+ * params) the "position", but once they finish running all of that
+ * is gone. Here we create a single place where any decorator can
+ * store data about a class, one of its members or one of the params
+ * of a method and read it later (it's the same idea of the
+ * "reflect-metadata" library that Angular and Nest use).
+ *
+ * The "target" follows the same rule of the decorators, it's the
+ * class itself for the class, its static members and the params of
+ * the constructor, and it's the prototype for instance members. This
+ * way looking for the metadata of a parent class is just following
+ * the prototype chain ("class B extends A" makes A the prototype of B
+ * and A.prototype the prototype of B.prototype).
+ *
+ * This section (and the logging one) must come before any decorated
+ * class, because decorators run when the classes are defined and the
+ * "const"s bellow can't be used before these lines run.
  */
-function Logger(constructor: Function) {
-  console.log("Logging...");
-  console.log(constructor);
+type MetadataKey = string | symbol;
+
+// "undefined" is the class itself (or the constructor, for params).
+type MemberKey = string | symbol | undefined;
+
+interface MemberMetadata {
+  own: Map<MetadataKey, any>;
+  parameters: Map<number, Map<MetadataKey, any>>;
 }
 
-/**
- * Here we're using the "class decorator", the "@" symbol is an
- * special identifier that TS recognizes and directly in front of it
- * we should point to a function (the decorator) without the "()";
- *
- * Except for the "parameter decorator", we must ALWAYS use decorators
- * right above the name of the "member" (class, property, method,
- * accessor) we want to use it on.
- */
-@Logger
-class Person {
-  firstName = "Clayton";
+const metadataStore = new WeakMap<object, Map<MemberKey, MemberMetadata>>();
 
-  constructor() {
-    console.log("Creating Person object...");
+function getMetadataMap(
+  target: object,
+  member: MemberKey,
+  parameterIndex: number | undefined,
+  create: boolean
+): Map<MetadataKey, any> | undefined {
+  flushOwnRegistrations(target);
+  let members = metadataStore.get(target);
+
+  if (!members) {
+    if (!create) {
+      return;
+    }
+
+    members = new Map();
+    metadataStore.set(target, members);
+  }
+
+  let memberMetadata = members.get(member);
+
+  if (!memberMetadata) {
+    if (!create) {
+      return;
+    }
+
+    memberMetadata = { own: new Map(), parameters: new Map() };
+    members.set(member, memberMetadata);
+  }
+
+  if (parameterIndex === undefined) {
+    return memberMetadata.own;
+  }
+
+  let parameterMetadata = memberMetadata.parameters.get(parameterIndex);
+
+  if (!parameterMetadata && create) {
+    parameterMetadata = new Map();
+    memberMetadata.parameters.set(parameterIndex, parameterMetadata);
   }
+
+  return parameterMetadata;
 }
 
-const person1 = new Person();
+function defineMetadata(
+  key: MetadataKey,
+  value: any,
+  target: object,
+  member?: string | symbol,
+  parameterIndex?: number
+) {
+  getMetadataMap(target, member, parameterIndex, true)!.set(key, value);
+}
 
-/**
- * The decorator's message and the class itself will be logged first,
- * then the constructor's message and only then the instance of the
- * class.
- */
-console.log(person1);
+// only looks at the "target" itself, not at its parents.
+function getOwnMetadata(
+  key: MetadataKey,
+  target: object,
+  member?: string | symbol,
+  parameterIndex?: number
+): any {
+  return getMetadataMap(target, member, parameterIndex, false)?.get(key);
+}
 
-// ==================== Decorator Factory ========================
-/**
- * A decorator factory returns a decorator function, but it allows us
- * to configure it when we assign it as a decorator to something.
- *
- * Now we can have a parameter in the decorator and pass to it the
- * message to log when we call it on the class.
- */
-function LoggerFactory(logString: string) {
-  console.log("Logger Factory...");
+// the positions of the params of "member" that have the key, in order.
+function getOwnParameterPositions(
+  key: MetadataKey,
+  target: object,
+  member?: string | symbol
+): number[] {
+  flushOwnRegistrations(target);
+  const positions: number[] = [];
 
-  return function (constructor: Function) {
-    console.log(logString);
-    console.log(constructor);
-  };
+  metadataStore
+    .get(target)
+    ?.get(member)
+    ?.parameters.forEach((metadata, position) => {
+      if (metadata.has(key)) {
+        positions.push(position);
+      }
+    });
+
+  return positions.sort((a, b) => a - b);
+}
+
+// looks at the "target" and then at its parents, the closest wins.
+function getMetadata(
+  key: MetadataKey,
+  target: object,
+  member?: string | symbol,
+  parameterIndex?: number
+): any {
+  const values = getMetadataChain(key, target, member, parameterIndex);
+  return values[values.length - 1];
 }
 
 /**
- * We need to execute (use the parenthesis) it as a regular
- * function in this case, then the "outer" function "LoggerFactory"
- * will return the attached value (wich is another function) as the
- * decorator to this class.
- *
- * The advantage is that now we can and pass in arguments to be used
- * in the returned "inner" decorator function.
+ * All the values of a key, starting from the farthest parent to the
+ * "target", for when we need to merge them (e.g. the validation rules
+ * of a subclass are added to the rules of its parent).
  */
-@LoggerFactory("Logging: personFactory")
-class Person2 {
-  firstName = "João";
+function getMetadataChain(
+  key: MetadataKey,
+  target: object,
+  member?: string | symbol,
+  parameterIndex?: number
+): any[] {
+  const values: any[] = [];
+  let current: object | null = target;
 
-  constructor() {
-    console.log("Creating Person2 object...");
+  while (current) {
+    const metadata = getMetadataMap(current, member, parameterIndex, false);
+
+    if (metadata?.has(key)) {
+      values.unshift(metadata.get(key));
+    }
+
+    current = Object.getPrototypeOf(current);
   }
+
+  return values;
 }
 
-const personFactory = new Person2();
-console.log(personFactory);
+interface DecoratedMember {
+  name: string | symbol;
+  isStatic: boolean;
+  keys: MetadataKey[];
+
+  // the positions of the params that have metadata.
+  parameters: number[];
+}
 
 /**
- * The decorator bellow is an example of "meta programming", because
- * we're creating a decorator (tool) that could be exposed for other
- * developers to use by adding it to classes, otherwise it would do
- * nothing and that is what some frameworks do (in a more elaborated
- * way ofc).
+ * Lists every member of a class (and of its parents) that has any
+ * metadata, it's useful for tools, e.g. to show which properties of a
+ * form have validators.
  */
-function WithTemplate(template: string, hookId: string) {
-  console.log("Factory With Template");
-
-  /**
-   * The parameter "underscore" means that we know we'll receive an
-   * argument, but we won't need it, in this case we have to specify
-   * a variable name for the parameter and if we used any other name
-   * TS would complain about declaring a variable not using it later.
-   */
-  // The param's name bellow changed later in the course, but we
-  // used this feature again in line 189.
-  // return function (_: Function) {
+function getDecoratedMembers(targetClass: Function): DecoratedMember[] {
+  const found: DecoratedMember[] = [];
 
-  /**
-   * Bellow we're using a generic type and extending a special object
-   * type with the "new" keyword as a method and it tells TS that
-   * it'll be an object that can be "newed" and it'll receive any
-   * amount of arguments and in the end it must return an object with
-   * at least a "firstName" property.
-   */
-  return function <T extends { new (...args: any[]): { firstName: string } }>(
-    originalConstructor: T
-  ) {
-    /**
-     * In order to do some more advanced things with decorators we can
-     * return values from them, the kind of values will depend on what
-     * kind of decorator we're working with, in this case is a class
-     * decorator, so we can return a new constructor which will
-     * replace the original one.
-     *
-     * Remenber, the "class" keyword returned bellow is just a
-     * "syntactic sugar" to create a constructor function in JS/TS
-     * and we can (and in this case should) extend the constructor
-     * we'll receive (the original one, so we can keep all the
-     * properties).
-     */
-    return class extends originalConstructor {
-      /**
-       * Now, since here we created a new constructor that will
-       * replace the original one, this logic will be executed every
-       * time we instantiate a new object from a class using this
-       * decorator and that's a new behavior since normally a
-       * decorator only executes once when the class is defined,
-       * with this we can add/extend new logic to objects.
-       */
+  const collect = (start: object, isStatic: boolean) => {
+    let current: object | null = start;
 
-      constructor(..._: any[]) {
-        /**
-         * Remember, if we add a constructor in a class that extends
-         * another class we need to call "super()" inside of the
-         * constructor.
-         */
-        super();
+    while (current) {
+      flushOwnRegistrations(current);
+      metadataStore.get(current)?.forEach((memberMetadata, name) => {
+        if (name === undefined) {
+          return;
+        }
 
-        // then we can add whatever logic we need.
-        console.log("Rendering Template...");
-        const hookEl = document.getElementById(hookId);
+        let member = found.find(
+          (item) => item.name === name && item.isStatic === isStatic
+        );
 
-        if (hookEl) {
-          hookEl.innerHTML = template;
+        if (!member) {
+          member = { name, isStatic, keys: [], parameters: [] };
+          found.push(member);
         }
-      }
-    };
+
+        memberMetadata.own.forEach((_, key) => {
+          if (member!.keys.indexOf(key) === -1) {
+            member!.keys.push(key);
+          }
+        });
+
+        memberMetadata.parameters.forEach((_, index) => {
+          if (member!.parameters.indexOf(index) === -1) {
+            member!.parameters.push(index);
+          }
+        });
+      });
+
+      current = Object.getPrototypeOf(current);
+    }
   };
-}
 
-/**
- * We can add multiple decorators anywhere in our classes, but they
- * have a specific order they run, basically from bottom to top (see
- * line 63).
- */
-@LoggerFactory("Logging with multiple decorators")
-@WithTemplate("<h2>This was created by a decorator function.</h2>", "app")
-class Person3 {
-  firstName = "Maria";
+  collect(targetClass.prototype, false);
+  collect(targetClass, true);
 
-  constructor() {
-    console.log("Creating Person3 object...");
-  }
+  return found;
 }
 
+// ============== Legacy And Standard Decorators ==================
 /**
- * Now, since we replaced the original constructor of the class
- * "Person3" in the factory decorator "WithTemplate", this
- * instance object will be created with the logic of the latter.
+ * Since TS 5.0 there are 2 kinds of decorators:
+ *  - the "legacy" ones (the ones we used in this whole file), enabled
+ *    by the "experimentalDecorators" option in the tsconfig file, they
+ *    receive (target, name, descriptor) or (target, name, position).
+ *  - the "standard" ones from the JS proposal (TC39), used when that
+ *    option is off, they receive (value, context), where "context"
+ *    is an object with the "kind" of member, its "name", if it's
+ *    "static", an "addInitializer" function and a "metadata" object.
+ *
+ * The decorators of this file work in both modes, they check which
+ * kind of arguments they got and then run the same logic, with the
+ * help of the functions bellow. The only exceptions are the parameter
+ * decorators ("LogParameter" and "Inject"), because the standard
+ * doesn't have them (yet), so they're only used in the
+ * parameter-decorators file, which the standard build leaves out.
+ *
+ * The tests in the "test" folder run the examples of both builds and
+ * check that they end up the same (see how to run them there).
+ *
+ * A standard decorator of a member doesn't receive the class nor the
+ * prototype (they don't exist yet when it runs), so whatever it wants
+ * to store in our metadata store waits in "context.metadata" (an
+ * object shared by all the decorators of the class, that later
+ * becomes "Class[Symbol.metadata]") and is stored the first time
+ * someone looks for the metadata of that class.
  */
-const personTemplate = new Person3();
-console.log(personTemplate);
 
-// ================== Property Decorator ======================
 /**
- * When we add a decorator to a property, the decorator receive 2
- * arguments (target and propertyName, but they don't need to have
- * these names), if we use a decorator on an instance property
- * the target will be the "prototype" of the object that was created
- * and if we had a "static" property then target would refer to the
- * "constructor" function instead.
+ * Browsers don't have "Symbol.metadata" yet and TS only gives the
+ * "context.metadata" object to the decorators if it exists, its type
+ * comes from the "ESNext.Decorators" lib (see the tsconfig file).
  */
-function LogProperty(target: any, propertyName: string | Symbol) {
-  console.log("Property decorator.");
-  console.log(target, propertyName);
+if (!Symbol.metadata) {
+  Object.defineProperty(Symbol, "metadata", {
+    value: Symbol("Symbol.metadata"),
+  });
+}
+
+const PENDING_REGISTRATIONS = Symbol("pendingRegistrations");
+
+function isDecoratorContext(value: unknown): value is DecoratorContext {
+  return typeof value === "object" && value !== null && "kind" in value;
+}
+
+function hasOwn(target: object, key: PropertyKey) {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function whenClassDefined(
+  context: DecoratorContext,
+  register: (owner: any) => void
+) {
+  const metadata = context.metadata;
+
+  if (!hasOwn(metadata, PENDING_REGISTRATIONS)) {
+    metadata[PENDING_REGISTRATIONS] = [];
+  }
+
+  // the same "target" a legacy decorator would receive.
+  const isStatic = "static" in context && context.static;
+  const pending = metadata[PENDING_REGISTRATIONS] as ((
+    cls: Function
+  ) => void)[];
+  pending.push((cls) =>
+    register(context.kind === "class" || isStatic ? cls : cls.prototype)
+  );
 }
 
-// ================= Accessor (get/set) Decorator ===================
 /**
- * When we add a decorator to an accessor, the decorator receive 3
- * arguments (target, name and descriptor), if we use the decorator
- * on an instance property the "target" will be the "prototype" of
- * the object that was created and if we had a "static" property
- * then target would refer to the "constructor" function instead,
- * the "name" refers to the name of the accessor and the descriptor
- * refers to the "property descriptor" of the member in which the
- * decorator was applied to.
- *
- * Here we also used a special TS type for the desciptor.
+ * Runs the registrations waiting in the metadata of a class (or of
+ * the class of a prototype), but only for that class, its parents are
+ * handled when we get to them in the prototype chain.
  */
-function LogAccessor(
-  target: any,
-  name: string,
-  descriptor: PropertyDescriptor
-) {
-  console.log("Accessor decorator.");
-  console.log(target);
-  console.log(name);
-  console.log(descriptor);
+function flushOwnRegistrations(target: object) {
+  const cls: unknown =
+    typeof target === "function" ? target : target.constructor;
+
+  if (
+    typeof cls !== "function" ||
+    (cls !== target && cls.prototype !== target) ||
+    !hasOwn(cls, Symbol.metadata)
+  ) {
+    return;
+  }
+
+  const metadata = cls[Symbol.metadata];
+
+  if (metadata && hasOwn(metadata, PENDING_REGISTRATIONS)) {
+    const pending = metadata[PENDING_REGISTRATIONS] as ((
+      cls: Function
+    ) => void)[];
+    delete metadata[PENDING_REGISTRATIONS];
+    pending.forEach((register) => register(cls));
+  }
+}
+
+// the same, but for the whole prototype chain of an object.
+function flushPendingRegistrations(target: object) {
+  let current: object | null = target;
+
+  while (current) {
+    flushOwnRegistrations(current);
+    current = Object.getPrototypeOf(current);
+  }
 }
 
-// ==================== Method Decorator ========================
 /**
- * "Method decorators" also receive the same 3 arguments that
- * "accessor decorators" do, just the "descriptor" is a bit different,
- * since it's a method and not an accessor.
+ * Decorators that only store something about a member use this one,
+ * it calls "register" with the same (target, name) in both modes,
+ * right away for legacy decorators or later for standard ones.
  */
-function LogMethod(
+function onMemberDefined(
   target: any,
-  name: string | Symbol,
-  descriptor: PropertyDescriptor
+  nameOrContext: string | symbol | DecoratorContext | undefined,
+  register: (owner: any, name: string) => void
 ) {
-  console.log("Method decorator.");
-  console.log(target);
-  console.log(name);
-  console.log(descriptor);
+  if (isDecoratorContext(nameOrContext)) {
+    const context = nameOrContext;
+    whenClassDefined(context, (owner) => register(owner, String(context.name)));
+  } else {
+    register(target, String(nameOrContext));
+  }
 }
 
-// ================== Parameter Decorator =====================
 /**
- * "Parameter decorators" also receive 3 arguments, "target" is the
- * same as the others above, "name" refers to the name of the function
- * where it was used and "position" refers to the index of the
- * parameter inside the function.
+ * Decorators that replace a method or an accessor write their logic
+ * as a legacy decorator (descriptor in, descriptor out) and this
+ * function turns it into the value a standard decorator must return.
  */
-function LogParameter(target: any, name: string | Symbol, position: number) {
-  console.log("Parameter decorator.");
-  console.log(target);
-  console.log(name);
-  console.log(position);
-}
+function replaceMember(
+  value: any,
+  nameOrContext: string | symbol | DecoratorContext,
+  descriptor: PropertyDescriptor | undefined,
+  transform: (
+    descriptor: PropertyDescriptor,
+    name: string
+  ) => PropertyDescriptor | void
+): any {
+  if (!isDecoratorContext(nameOrContext)) {
+    return transform(descriptor!, String(nameOrContext));
+  }
 
-// ==================== Using Decorators =========================
-class Product {
-  /**
-   * This "LogProperty" decorator executes even though we didn't
-   * instantiate the "Product" class and that's because (as we saw
-   * earlier), decorators are executed when classes are defined, not
-   * necessarily when they are instantiated.
-   */
-  @LogProperty
-  title: string;
-  private _price: number;
+  const context = nameOrContext;
+  const name = String(context.name);
+  const base = { configurable: true, enumerable: false };
 
-  /**
-   * TypeScript disallows decorating both the "get" and "set" accessor
-   * for a single member. Instead, all decorators for the member must
-   * be applied to the first accessor specified in document order.
-   * This is because decorators apply to a "Property Descriptor", which
-   * combines both the get and set accessor, not each declaration
-   * separately.
-   *
-   * If the accessor decorator returns a value, it will be used as the
-   * Property Descriptor for the member.
-   */
-  @LogAccessor
-  set price(val: number) {
-    if (val > 0) {
-      this._price = val;
-    } else {
-      throw new Error("Invalid price - it should be a positive value!");
+  switch (context.kind) {
+    case "method":
+      return (
+        transform({ ...base, writable: true, value }, name)?.value ?? value
+      );
+    case "getter":
+      return transform({ ...base, get: value }, name)?.get ?? value;
+    case "setter":
+      return transform({ ...base, set: value }, name)?.set ?? value;
+    case "accessor": {
+      // "accessor" fields give us an object with "get" and "set".
+      const { get, set } = value;
+      const replaced = transform({ ...base, get, set }, name);
+      return replaced ? { get: replaced.get, set: replaced.set } : value;
     }
+    default:
+      throw new Error(`"${name}" is a ${context.kind}, it can't be replaced.`);
   }
+}
 
-  constructor(t: string, p: number) {
-    this.title = t;
-    this._price = p;
-  }
+// what property decorators receive as the 2nd argument in each mode.
+type FieldNameOrContext =
+  | string
+  | ClassFieldDecoratorContext
+  | ClassAccessorDecoratorContext;
 
+type MethodNameOrContext =
+  | string
+  | ClassMethodDecoratorContext
+  | ClassGetterDecoratorContext
+  | ClassSetterDecoratorContext
+  | ClassAccessorDecoratorContext;
+
+// ==================== Structured Logging ========================
+/**
+ * The logging decorators of this file ("Logger", "LogMethod"...)
+ * don't call "console.log" directly, they create "records" (objects
+ * with the same fields every time) and send them to the "sinks" that
+ * were added, so we can decide where the logs go (console, memory,
+ * a file, a server...) without touching the decorators.
+ */
+enum LogLevel {
+  DEBUG,
+  INFO,
+  WARN,
+  ERROR,
+}
+
+interface LogRecord {
+  level: LogLevel;
+  message: string;
+  timestamp: Date;
+  className?: string;
+  member?: string;
+  args?: any[];
+  returnValue?: any;
+  durationMs?: number;
+  error?: unknown;
+}
+
+interface LogSink {
+  write(record: LogRecord): void;
+}
+
+// prints the records, using the "console" method of each level.
+class ConsoleSink implements LogSink {
+  write(record: LogRecord) {
+    const text = `[${LogLevel[record.level]}] ${record.message}`;
+
+    switch (record.level) {
+      case LogLevel.ERROR:
+        console.error(text, record);
+        break;
+      case LogLevel.WARN:
+        console.warn(text, record);
+        break;
+      default:
+        console.log(text, record);
+    }
+  }
+}
+
+/**
+ * Keeps only the last "capacity" records in memory, the oldest ones
+ * are dropped, so it never grows forever (useful for tests or to
+ * attach the recent logs to an error report).
+ */
+class RingBufferSink implements LogSink {
+  private buffer: LogRecord[] = [];
+
+  constructor(private capacity = 100) {}
+
+  write(record: LogRecord) {
+    this.buffer.push(record);
+
+    if (this.buffer.length > this.capacity) {
+      this.buffer.shift();
+    }
+  }
+
+  records() {
+    return [...this.buffer];
+  }
+
+  clear() {
+    this.buffer = [];
+  }
+}
+
+/**
+ * Turns each record into one line of JSON ("JSON lines"), the format
+ * most log tools understand, and passes it to "writeLine".
+ */
+class JsonLinesSink implements LogSink {
+  constructor(
+    private writeLine: (line: string) => void = (line) => console.log(line)
+  ) {}
+
+  write(record: LogRecord) {
+    this.writeLine(
+      JSON.stringify(record, function (this: any, key, value) {
+        // only the level of the record, the args can have a "level" too.
+        if (key === "level" && this === record) {
+          return LogLevel[value];
+        }
+
+        // errors have no enumerable fields, so they would become "{}".
+        if (value instanceof Error) {
+          return { name: value.name, message: value.message };
+        }
+
+        // DOM elements and events are huge (and circular).
+        if (value instanceof Node || value instanceof Event) {
+          return `[${value.constructor.name}]`;
+        }
+
+        return value;
+      })
+    );
+  }
+}
+
+const logConfig: { level: LogLevel; sinks: LogSink[] } = {
+  level: LogLevel.DEBUG,
+  sinks: [new ConsoleSink()],
+};
+
+function addLogSink(sink: LogSink) {
+  logConfig.sinks.push(sink);
+}
+
+function removeLogSink(sink: LogSink) {
+  logConfig.sinks = logConfig.sinks.filter((item) => item !== sink);
+}
+
+// records bellow this level are ignored.
+function setLogLevel(level: LogLevel) {
+  logConfig.level = level;
+}
+
+function writeLog(record: Omit<LogRecord, "timestamp">) {
+  if (record.level < logConfig.level) {
+    return;
+  }
+
+  const fullRecord: LogRecord = { ...record, timestamp: new Date() };
+
+  for (const sink of logConfig.sinks) {
+    // a broken sink can't break the code that logs, nor the other sinks.
+    try {
+      sink.write(fullRecord);
+    } catch (error) {
+      console.error("A log sink failed to write a record:", error);
+    }
+  }
+}
+
+/**
+ * For instance members "target" is the prototype and for static ones
+ * it's the class itself (see the property decorator section).
+ */
+function ownerName(target: any): string {
+  return typeof target === "function" ? target.name : target.constructor.name;
+}
+
+/**
+ * Calls a method and logs how it went: the args, the returned value
+ * (or the error it threw) and how long it took. For async methods we
+ * wait for the promise, otherwise every call would take 0ms.
+ */
+function callAndLog(
+  level: LogLevel,
+  className: string,
+  member: string,
+  thisArg: any,
+  method: (...args: any[]) => any,
+  args: any[]
+) {
+  const start = performance.now();
+
+  const finish = (result: { returnValue?: any; error?: unknown }) => {
+    const failed = "error" in result;
+
+    writeLog({
+      level: failed ? LogLevel.ERROR : level,
+      message: `${className}.${member} ${failed ? "threw" : "returned"}`,
+      className,
+      member,
+      args,
+      durationMs: performance.now() - start,
+      ...result,
+    });
+  };
+
+  let returnValue: any;
+
+  try {
+    returnValue = method.apply(thisArg, args);
+  } catch (error) {
+    finish({ error });
+    throw error;
+  }
+
+  if (returnValue instanceof Promise) {
+    return returnValue.then(
+      (value) => {
+        finish({ returnValue: value });
+        return value;
+      },
+      (error) => {
+        finish({ error });
+        throw error;
+      }
+    );
+  }
+
+  finish({ returnValue });
+  return returnValue;
+}
+
+/**
+ * A method decorator factory that logs every call of the method (not
+ * only once when the class is defined), "@LogMethod" bellow is just
+ * this one with the "DEBUG" level.
+ */
+function LogCalls(level = LogLevel.INFO) {
+  return function (
+    target: any,
+    context: MethodNameOrContext,
+    descriptor?: PropertyDescriptor
+  ) {
+    let className = "";
+
+    onMemberDefined(target, context, (owner, name) => {
+      className = ownerName(owner);
+      defineMetadata("log:level", level, owner, name);
+    });
+
+    return replaceMember(target, context, descriptor, (methodDesc, name) =>
+      wrapMethod(name, methodDesc, (method) => {
+        return function (this: any, ...args: any[]) {
+          // a standard decorator only knows its class after this.
+          flushPendingRegistrations(this);
+          return callAndLog(level, className, name, this, method, args);
+        };
+      })
+    );
+  };
+}
+
+/**
+ * We also keep the most recent records in memory, so we can inspect
+ * them later (see the "Using Decorators" section).
+ */
+const recentLogs = new RingBufferSink(50);
+addLogSink(recentLogs);
+
+// ==================== Reactive Templates ========================
+/**
+ * The templates used by "WithTemplate" (see the "Decorator Factory"
+ * section) are strings of HTML with a few extra tags:
+ *  - "{{firstName}}" writes the value of a property (dots work too,
+ *    "{{address.city}}"), escaping the HTML inside of it, so a value
+ *    like "<b>" is shown as text. "{{{html}}}" writes it as it is.
+ *  - "{{#if isAdmin}} ... {{else}} ... {{/if}}" only renders a part
+ *    if the value is truthy ("{{#if !isAdmin}}" for the opposite).
+ *  - "{{#each hobbies as hobby, i}} ... {{/each}}" renders a part for
+ *    every item of a list, "hobby" and "i" (optional) are available
+ *    inside of it.
+ *  - '@click="rename"' in a tag calls a method of the instance on the
+ *    "click" event (any event works), it can receive args, like
+ *    '@click="remove(hobby, $event)"'.
+ *
+ * The template is parsed once into a tree of nodes and every render
+ * turns that tree into a new HTML string for the "innerHTML" of the
+ * hook element.
+ */
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "value"; expression: string; raw: boolean }
+  | { type: "event"; event: string; method: string; args: string[] }
+  | IfTemplateNode
+  | EachTemplateNode;
+
+interface IfTemplateNode {
+  type: "if";
+  expression: string;
+  then: TemplateNode[];
+  otherwise: TemplateNode[];
+}
+
+interface EachTemplateNode {
+  type: "each";
+  expression: string;
+  itemName: string;
+  indexName?: string;
+  body: TemplateNode[];
+}
+
+// the variables of the "each" blocks we're in, plus the instance.
+interface TemplateScope {
+  instance: any;
+  locals: { [name: string]: any };
+}
+
+/**
+ * Where the text between the "{{ }}" tags starts, a "<tag" or an
+ * attribute value can be opened in one piece and closed in another.
+ */
+interface TemplateTextState {
+  insideTag: boolean;
+  quote?: string;
+}
+
+const parsedTemplates = new Map<string, TemplateNode[]>();
+
+// "a, 'b, c'" is two args, the commas inside of strings don't count.
+function splitTemplateArgs(args: string) {
+  const result: string[] = [];
+  let current = "";
+  let quote: string | undefined;
+
+  for (const char of args) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      result.push(current.trim());
+      current = "";
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (quote) {
+    throw new Error(`The string in the args "${args}" was never closed.`);
+  }
+
+  return [...result, current.trim()];
+}
+
+/**
+ * The event bindings are only read inside of the tags, an "@" in the
+ * text (like "john@mail.com") or in the value of another attribute is
+ * kept as it is.
+ */
+function parseTemplateText(
+  text: string,
+  nodes: TemplateNode[],
+  state: TemplateTextState
+) {
+  const eventBinding = /@([\w-]+)="([^"]*)"/y;
+  let lastIndex = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (!state.insideTag) {
+      state.insideTag = char === "<" && /[a-zA-Z]/.test(text[i + 1] ?? "");
+      continue;
+    }
+
+    if (state.quote) {
+      state.quote = char === state.quote ? undefined : state.quote;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      state.quote = char;
+      continue;
+    }
+
+    if (char === ">") {
+      state.insideTag = false;
+      continue;
+    }
+
+    eventBinding.lastIndex = i;
+    const match = char === "@" ? eventBinding.exec(text) : null;
+
+    if (!match) {
+      continue;
+    }
+
+    const call = /^\s*([\w$.]+)\s*(?:\((.*)\))?\s*$/.exec(match[2]);
+
+    if (!call) {
+      throw new Error(`Invalid event binding '${match[0]}'.`);
+    }
+
+    nodes.push({ type: "text", text: text.slice(lastIndex, i) });
+    nodes.push({
+      type: "event",
+      event: match[1],
+      method: call[1],
+      args: call[2]?.trim() ? splitTemplateArgs(call[2]) : [],
+    });
+    lastIndex = eventBinding.lastIndex;
+    i = lastIndex - 1;
+  }
+
+  nodes.push({ type: "text", text: text.slice(lastIndex) });
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const cached = parsedTemplates.get(template);
+
+  if (cached) {
+    return cached;
+  }
+
+  const tags = /\{\{\{\s*([\s\S]+?)\s*\}\}\}|\{\{\s*([\s\S]+?)\s*\}\}/g;
+  const root: TemplateNode[] = [];
+  const textState: TemplateTextState = { insideTag: false };
+
+  // the blocks we're inside of, new nodes go to the last one.
+  const blocks: {
+    node?: IfTemplateNode | EachTemplateNode;
+    children: TemplateNode[];
+  }[] = [{ children: root }];
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tags.exec(template))) {
+    const current = blocks[blocks.length - 1];
+    const tag = match[2];
+    parseTemplateText(
+      template.slice(lastIndex, match.index),
+      current.children,
+      textState
+    );
+    lastIndex = tags.lastIndex;
+
+    if (tag === undefined) {
+      current.children.push({ type: "value", expression: match[1], raw: true });
+    } else if (tag.startsWith("#if ")) {
+      const node: IfTemplateNode = {
+        type: "if",
+        expression: tag.slice(4).trim(),
+        then: [],
+        otherwise: [],
+      };
+      current.children.push(node);
+      blocks.push({ node, children: node.then });
+    } else if (tag.startsWith("#each ")) {
+      const each = /^#each\s+(\S+)\s+as\s+(\w+)(?:\s*,\s*(\w+))?$/.exec(tag);
+
+      if (!each) {
+        throw new Error(`Invalid "{{${tag}}}", use "{{#each list as item}}".`);
+      }
+
+      const node: EachTemplateNode = {
+        type: "each",
+        expression: each[1],
+        itemName: each[2],
+        indexName: each[3],
+        body: [],
+      };
+      current.children.push(node);
+      blocks.push({ node, children: node.body });
+    } else if (tag === "else") {
+      if (current.node?.type !== "if") {
+        throw new Error('"{{else}}" can only be used inside of "{{#if}}".');
+      }
+
+      current.children = current.node.otherwise;
+    } else if (tag === "/if" || tag === "/each") {
+      if (current.node?.type !== tag.slice(1)) {
+        throw new Error(`Unexpected "{{${tag}}}" in the template.`);
+      }
+
+      blocks.pop();
+    } else {
+      current.children.push({ type: "value", expression: tag, raw: false });
+    }
+  }
+
+  if (blocks.length > 1) {
+    const { node } = blocks[blocks.length - 1];
+    throw new Error(`"{{#${node!.type}}}" was never closed in the template.`);
+  }
+
+  parseTemplateText(template.slice(lastIndex), root, textState);
+  parsedTemplates.set(template, root);
+
+  return root;
+}
+
+function escapeHtml(value: any) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// "a.b.c" looking for "a" in the "each" variables first.
+function resolveTemplatePath(path: string, scope: TemplateScope) {
+  const [first, ...rest] = path.split(".");
+  const start =
+    first in scope.locals ? scope.locals[first] : scope.instance[first];
+
+  return rest.reduce((value, key) => value?.[key], start);
+}
+
+function evaluateTemplateExpression(
+  expression: string,
+  scope: TemplateScope
+): any {
+  if (expression.startsWith("!")) {
+    return !evaluateTemplateExpression(expression.slice(1).trim(), scope);
+  }
+
+  return resolveTemplatePath(expression, scope);
+}
+
+// the args of an event binding can also be strings and numbers.
+function evaluateTemplateArg(arg: string, scope: TemplateScope, event: Event) {
+  if (arg === "$event") {
+    return event;
+  }
+
+  if (/^(["']).*\1$/.test(arg)) {
+    return arg.slice(1, -1);
+  }
+
+  if (arg !== "" && !isNaN(Number(arg))) {
+    return Number(arg);
+  }
+
+  return evaluateTemplateExpression(arg, scope);
+}
+
+/**
+ * The event bindings can't be written in the HTML string, so each one
+ * becomes a "data-on-click" attribute with the index of its handler in
+ * "handlers", and we add the listeners after the HTML is in the DOM.
+ */
+function renderTemplateNodes(
+  nodes: TemplateNode[],
+  scope: TemplateScope,
+  handlers: ((event: Event) => void)[]
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.text;
+        case "value": {
+          const value = evaluateTemplateExpression(node.expression, scope);
+          return node.raw ? String(value ?? "") : escapeHtml(value);
+        }
+        case "if":
+          return renderTemplateNodes(
+            evaluateTemplateExpression(node.expression, scope)
+              ? node.then
+              : node.otherwise,
+            scope,
+            handlers
+          );
+        case "each": {
+          const list = evaluateTemplateExpression(node.expression, scope);
+
+          return Array.from<any>(list ?? [])
+            .map((item, index) => {
+              const locals = { ...scope.locals, [node.itemName]: item };
+
+              if (node.indexName) {
+                locals[node.indexName] = index;
+              }
+
+              return renderTemplateNodes(
+                node.body,
+                { instance: scope.instance, locals },
+                handlers
+              );
+            })
+            .join("");
+        }
+        case "event": {
+          const path = node.method.split(".");
+          const owner =
+            path.length > 1
+              ? resolveTemplatePath(path.slice(0, -1).join("."), scope)
+              : scope.instance;
+          const method = owner?.[path[path.length - 1]];
+
+          if (typeof method !== "function") {
+            throw new Error(
+              `"${node.method}" is not a method, it can't handle ` +
+                `"${node.event}".`
+            );
+          }
+
+          handlers.push((event) =>
+            method.apply(
+              owner,
+              node.args.map((arg) => evaluateTemplateArg(arg, scope, event))
+            )
+          );
+
+          return `data-on-${node.event}="${handlers.length - 1}"`;
+        }
+      }
+    })
+    .join("");
+}
+
+function renderTemplate(
+  template: string,
+  hookEl: HTMLElement | ShadowRoot,
+  instance: any
+) {
+  const handlers: ((event: Event) => void)[] = [];
+  const scope: TemplateScope = { instance, locals: {} };
+  hookEl.innerHTML = renderTemplateNodes(
+    parseTemplate(template),
+    scope,
+    handlers
+  );
+
+  hookEl.querySelectorAll("*").forEach((element) => {
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      if (name.startsWith("data-on-")) {
+        element.addEventListener(name.slice(8), handlers[Number(value)]);
+      }
+    });
+  });
+}
+
+/**
+ * Returns a proxy of the object that calls "onChange" when any of its
+ * properties is set or deleted, including the properties of the
+ * arrays and plain objects inside of it (e.g. "hobbies.push(...)").
+ * Other objects (dates, maps...) are kept as they are, they wouldn't
+ * work behind a proxy.
+ */
+function makeReactive<T extends object>(target: T, onChange: () => void): T {
+  const proxies = new WeakMap<object, any>();
+
+  const isPlain = (value: any) =>
+    Array.isArray(value) ||
+    Object.getPrototypeOf(value) === Object.prototype ||
+    Object.getPrototypeOf(value) === null;
+
+  const handler: ProxyHandler<any> = {
+    get(obj, key, receiver) {
+      const value = Reflect.get(obj, key, receiver);
+      return value !== null && typeof value === "object" && isPlain(value)
+        ? wrap(value)
+        : value;
+    },
+    set(obj, key, value, receiver) {
+      const oldValue = obj[key];
+      const result = Reflect.set(obj, key, value, receiver);
+
+      // "length" changes by itself when we push into an array.
+      if (oldValue !== value || Array.isArray(obj)) {
+        onChange();
+      }
+
+      return result;
+    },
+    deleteProperty(obj, key) {
+      const result = Reflect.deleteProperty(obj, key);
+      onChange();
+      return result;
+    },
+  };
+
+  function wrap(value: object) {
+    if (!proxies.has(value)) {
+      proxies.set(value, new Proxy(value, handler));
+    }
+
+    return proxies.get(value);
+  }
+
+  return wrap(target);
+}
+
+/**
+ * Many changes in a row (e.g. in the same method) should only render
+ * once, so the returned function only calls "render" in a microtask,
+ * after all of them.
+ *
+ * Nobody awaits that microtask, so an error of the render (e.g. a
+ * method that doesn't exist anymore) is logged here instead of
+ * becoming an unhandled rejection.
+ */
+function batchRenders(render: () => void) {
+  let renderScheduled = false;
+
+  return () => {
+    if (!renderScheduled) {
+      renderScheduled = true;
+      Promise.resolve().then(() => {
+        renderScheduled = false;
+
+        try {
+          render();
+        } catch (error) {
+          writeLog({
+            level: LogLevel.ERROR,
+            message: "The template failed to render",
+            error,
+          });
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Renders the template with the instance and keeps rendering it when
+ * the instance changes, it returns the reactive version of the
+ * instance (the one we must change for the DOM to be updated).
+ *
+ * Since the whole HTML is replaced, the elements inside the hook lose
+ * their state (like focus) on render.
+ */
+function mountTemplate<T extends object>(
+  template: string,
+  hookEl: HTMLElement,
+  instance: T
+): T {
+  const reactiveInstance = makeReactive(
+    instance,
+    batchRenders(() => renderTemplate(template, hookEl, reactiveInstance))
+  );
+
+  renderTemplate(template, hookEl, reactiveInstance);
+
+  return reactiveInstance;
+}
+
+// ==================== Class Decorator ========================
+/**
+ * This function is a "class decorator", it's not necessarily a
+ * convention, but it's common to see the name of the decorators
+ * starting with a capital letter.
+ */
+function Logger(constructor: Function, _context?: ClassDecoratorContext) {
+  defineMetadata("log:level", LogLevel.DEBUG, constructor);
+  writeLog({
+    level: LogLevel.DEBUG,
+    message: "Logging...",
+    className: constructor.name,
+  });
+}
+
+/**
+ * Here we're using the "class decorator", the "@" symbol is an
+ * special identifier that TS recognizes and directly in front of it
+ * we should point to a function (the decorator) without the "()";
+ *
+ * Except for the "parameter decorator", we must ALWAYS use decorators
+ * right above the name of the "member" (class, property, method,
+ * accessor) we want to use it on.
+ */
+@Logger
+class Person {
+  firstName = "Clayton";
+
+  constructor() {
+    console.log("Creating Person object...");
+  }
+}
+
+const person1 = new Person();
+
+/**
+ * The decorator's message and the class itself will be logged first,
+ * then the constructor's message and only then the instance of the
+ * class.
+ */
+console.log(person1);
+
+// ==================== Decorator Factory ========================
+/**
+ * A decorator factory returns a decorator function, but it allows us
+ * to configure it when we assign it as a decorator to something.
+ *
+ * Now we can have a parameter in the decorator and pass to it the
+ * message to log when we call it on the class.
+ */
+function LoggerFactory(logString: string) {
+  writeLog({ level: LogLevel.DEBUG, message: "Logger Factory..." });
+
+  return function (constructor: Function, _context?: ClassDecoratorContext) {
+    defineMetadata("log:level", LogLevel.DEBUG, constructor);
+    writeLog({
+      level: LogLevel.DEBUG,
+      message: logString,
+      className: constructor.name,
+    });
+  };
+}
+
+/**
+ * We need to execute (use the parenthesis) it as a regular
+ * function in this case, then the "outer" function "LoggerFactory"
+ * will return the attached value (wich is another function) as the
+ * decorator to this class.
+ *
+ * The advantage is that now we can and pass in arguments to be used
+ * in the returned "inner" decorator function.
+ */
+@LoggerFactory("Logging: personFactory")
+class Person2 {
+  firstName = "João";
+
+  constructor() {
+    console.log("Creating Person2 object...");
+  }
+}
+
+const personFactory = new Person2();
+console.log(personFactory);
+
+/**
+ * The decorator bellow is an example of "meta programming", because
+ * we're creating a decorator (tool) that could be exposed for other
+ * developers to use by adding it to classes, otherwise it would do
+ * nothing and that is what some frameworks do (in a more elaborated
+ * way ofc).
+ */
+function WithTemplate(template: string, hookId: string) {
+  console.log("Factory With Template");
+
+  /**
+   * The parameter "underscore" means that we know we'll receive an
+   * argument, but we won't need it, in this case we have to specify
+   * a variable name for the parameter and if we used any other name
+   * TS would complain about declaring a variable not using it later.
+   */
+  // The param's name bellow changed later in the course, but we
+  // used this feature again in line 189.
+  // return function (_: Function) {
+
+  /**
+   * Bellow we're using a generic type and extending a special object
+   * type with the "new" keyword as a method and it tells TS that
+   * it'll be an object that can be "newed" and it'll receive any
+   * amount of arguments and in the end it must return an object with
+   * at least a "firstName" property.
+   */
+  return function <T extends { new (...args: any[]): { firstName: string } }>(
+    originalConstructor: T,
+    _context?: ClassDecoratorContext
+  ) {
+    /**
+     * In order to do some more advanced things with decorators we can
+     * return values from them, the kind of values will depend on what
+     * kind of decorator we're working with, in this case is a class
+     * decorator, so we can return a new constructor which will
+     * replace the original one.
+     *
+     * Remenber, the "class" keyword returned bellow is just a
+     * "syntactic sugar" to create a constructor function in JS/TS
+     * and we can (and in this case should) extend the constructor
+     * we'll receive (the original one, so we can keep all the
+     * properties).
+     */
+    const templateClass = class extends originalConstructor {
+      /**
+       * Now, since here we created a new constructor that will
+       * replace the original one, this logic will be executed every
+       * time we instantiate a new object from a class using this
+       * decorator and that's a new behavior since normally a
+       * decorator only executes once when the class is defined,
+       * with this we can add/extend new logic to objects.
+       */
+
+      constructor(..._: any[]) {
+        /**
+         * Remember, if we add a constructor in a class that extends
+         * another class we need to call "super()" inside of the
+         * constructor.
+         */
+        super();
+
+        // then we can add whatever logic we need.
+        console.log("Rendering Template...");
+        const hookEl = document.getElementById(hookId);
+
+        /**
+         * A constructor can also return an object, which will be the
+         * result of "new" instead of "this", here it's a proxy of the
+         * instance that renders the template again when it changes
+         * (see the "Reactive Templates" section).
+         */
+        if (hookEl) {
+          return mountTemplate(template, hookEl, this);
+        }
+      }
+    };
+
+    // keeping the template around, so tools can find it later.
+    defineMetadata("template", { template, hookId }, templateClass);
+
+    return templateClass;
+  };
+}
+
+/**
+ * We can add multiple decorators anywhere in our classes, but they
+ * have a specific order they run, basically from bottom to top (see
+ * line 63).
+ */
+const person3Template = `
+  <h2>{{firstName}} was created by a decorator function.</h2>
+  {{#if hobbies.length}}
+    <ul>
+      {{#each hobbies as hobby, i}}
+        <li>{{hobby}} <button @click="removeHobby(i)">x</button></li>
+      {{/each}}
+    </ul>
+  {{else}}
+    <p>{{firstName}} has no hobbies yet.</p>
+  {{/if}}
+  <button @click="rename">Rename</button>
+`;
+
+@LoggerFactory("Logging with multiple decorators")
+@WithTemplate(person3Template, "app")
+class Person3 {
+  firstName = "Maria";
+  hobbies = ["Cooking", "<Coding>"]; // "<Coding>" is escaped.
+
+  constructor() {
+    console.log("Creating Person3 object...");
+  }
+
+  rename() {
+    this.firstName = this.firstName === "Maria" ? "Maria Clara" : "Maria";
+  }
+
+  removeHobby(index: number) {
+    this.hobbies.splice(index, 1);
+  }
+}
+
+/**
+ * Now, since we replaced the original constructor of the class
+ * "Person3" in the factory decorator "WithTemplate", this
+ * instance object will be created with the logic of the latter.
+ */
+const personTemplate = new Person3();
+console.log(personTemplate);
+
+// the "#app" element shows "Ana" (and 3 hobbies) after this.
+personTemplate.firstName = "Ana";
+personTemplate.hobbies.push("Reading");
+
+// ================== Property Decorator ======================
+/**
+ * When we add a decorator to a property, the decorator receive 2
+ * arguments (target and propertyName, but they don't need to have
+ * these names), if we use a decorator on an instance property
+ * the target will be the "prototype" of the object that was created
+ * and if we had a "static" property then target would refer to the
+ * "constructor" function instead.
+ */
+function LogProperty(target: any, propertyName: FieldNameOrContext) {
+  onMemberDefined(target, propertyName, (owner, name) => {
+    defineMetadata("log:level", LogLevel.DEBUG, owner, name);
+    writeLog({
+      level: LogLevel.DEBUG,
+      message: "Property decorator.",
+      className: ownerName(owner),
+      member: name,
+    });
+  });
+}
+
+// ================= Accessor (get/set) Decorator ===================
+/**
+ * When we add a decorator to an accessor, the decorator receive 3
+ * arguments (target, name and descriptor), if we use the decorator
+ * on an instance property the "target" will be the "prototype" of
+ * the object that was created and if we had a "static" property
+ * then target would refer to the "constructor" function instead,
+ * the "name" refers to the name of the accessor and the descriptor
+ * refers to the "property descriptor" of the member in which the
+ * decorator was applied to.
+ *
+ * Here we also used a special TS type for the desciptor.
+ *
+ * Instead of logging only once, we return a new descriptor that logs
+ * every time the getter or the setter is used.
+ */
+function LogAccessor(
+  target: any,
+  context: MethodNameOrContext,
+  descriptor?: PropertyDescriptor
+) {
+  let className = "";
+
+  onMemberDefined(target, context, (owner, name) => {
+    className = ownerName(owner);
+    defineMetadata("log:level", LogLevel.DEBUG, owner, name);
+  });
+
+  return replaceMember(target, context, descriptor, (accessor, name) => {
+    const { get, set } = accessor;
+
+    return {
+      ...accessor,
+      get:
+        get &&
+        function (this: any) {
+          flushPendingRegistrations(this);
+          const member = `get ${name}`;
+          return callAndLog(LogLevel.DEBUG, className, member, this, get, []);
+        },
+      set:
+        set &&
+        function (this: any, value: any) {
+          flushPendingRegistrations(this);
+          const member = `set ${name}`;
+          callAndLog(LogLevel.DEBUG, className, member, this, set, [value]);
+        },
+    };
+  });
+}
+
+// ==================== Method Decorator ========================
+/**
+ * "Method decorators" also receive the same 3 arguments that
+ * "accessor decorators" do, just the "descriptor" is a bit different,
+ * since it's a method and not an accessor.
+ *
+ * Returning a new descriptor lets us log every call of the method,
+ * with its args, returned value and duration (see "LogCalls").
+ */
+function LogMethod(
+  target: any,
+  context: MethodNameOrContext,
+  descriptor?: PropertyDescriptor
+) {
+  return LogCalls(LogLevel.DEBUG)(target, context, descriptor);
+}
+
+// ================== Parameter Decorator =====================
+/**
+ * "Parameter decorators" also receive 3 arguments, "target" is the
+ * same as the others above, "name" refers to the name of the function
+ * where it was used and "position" refers to the index of the
+ * parameter inside the function.
+ *
+ * The standard decorators don't have parameter decorators, so this
+ * one only works with "experimentalDecorators" and TS doesn't even
+ * compile a decorated param without it, that's why the examples with
+ * params are in the parameter-decorators file (the standard build
+ * leaves it out).
+ */
+function LogParameter(
+  target: any,
+  name: string | symbol | undefined,
+  position: number
+) {
+  defineMetadata("log:level", LogLevel.DEBUG, target, name, position);
+  writeLog({
+    level: LogLevel.DEBUG,
+    message: `Parameter decorator (position ${position}).`,
+    className: ownerName(target),
+    member: String(name),
+  });
+}
+
+// ==================== Using Decorators =========================
+class Product {
+  /**
+   * This "LogProperty" decorator executes even though we didn't
+   * instantiate the "Product" class and that's because (as we saw
+   * earlier), decorators are executed when classes are defined, not
+   * necessarily when they are instantiated.
+   */
+  @LogProperty
+  title: string;
+  private _price: number;
+
+  /**
+   * TypeScript disallows decorating both the "get" and "set" accessor
+   * for a single member. Instead, all decorators for the member must
+   * be applied to the first accessor specified in document order.
+   * This is because decorators apply to a "Property Descriptor", which
+   * combines both the get and set accessor, not each declaration
+   * separately.
+   *
+   * If the accessor decorator returns a value, it will be used as the
+   * Property Descriptor for the member.
+   */
+  @LogAccessor
+  set price(val: number) {
+    if (val > 0) {
+      this._price = val;
+    } else {
+      throw new Error("Invalid price - it should be a positive value!");
+    }
+  }
+
+  constructor(t: string, p: number) {
+    this.title = t;
+    this._price = p;
+  }
+
+  /**
+   * The "@LogParameter" that was on the "tax" param moved to the
+   * parameter-decorators file, the standard decorators don't have
+   * parameter decorators (see the "Parameter Decorator" section).
+   */
   @LogMethod
+  getPriceWithtax(tax: number) {
+    return this._price * (1 + tax);
+  }
+}
+
+/**
+ * The decorators won't execute again just because we instanciated the
+ * class, they only execute once when the class is defined.
+ */
+const videoGame = new Product("PS5", 3500);
+console.log(videoGame);
+
+const laptop = new Product("Alienware", 13300);
+console.log(laptop);
+
+/**
+ * But "LogMethod" and "LogAccessor" log every call, here we also send
+ * the records to a "JSON lines" sink for a moment.
+ */
+const jsonLogs: string[] = [];
+const jsonSink = new JsonLinesSink((line) => jsonLogs.push(line));
+addLogSink(jsonSink);
+
+laptop.getPriceWithtax(0.2);
+laptop.price = 12000;
+
+try {
+  laptop.price = -1;
+} catch {
+  // the thrown error was logged with the "ERROR" level.
+}
+
+removeLogSink(jsonSink);
+console.log(jsonLogs);
+console.log(recentLogs.records().filter((record) => record.member));
+
+// ============== Auto Bind Method Decorator Example ===============
+
+function AutoBind(
+  _: any,
+  context: string | ClassMethodDecoratorContext,
+  descriptor?: PropertyDescriptor
+): any {
+  /**
+   * A standard decorator can't return a getter for a method, but it
+   * can add an "initializer" that runs for every new instance, so we
+   * bind the method right on the instance (it's the final method, in
+   * case other decorators replaced it too).
+   */
+  if (isDecoratorContext(context)) {
+    const name = context.name;
+    context.addInitializer(function (this: any) {
+      this[name] = this[name].bind(this);
+    });
+    return;
+  }
+
+  /**
+   * The "property descriptor" is an object with a property "value"
+   * that holds the name of the method in this case, to see more
+   * info about this object check out the documentation:
+   * https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/getOwnPropertyDescriptor
+   */
+  const originalMethod = descriptor!.value;
+
+  // Here we're creating our custom "property descriptor" object.
+  const adjustedDescriptor: PropertyDescriptor = {
+    configurable: true,
+    enumerable: false,
+
+    /**
+     * This "get" method works like a "value" property that runs
+     * extra logic before the value is returned.
+     */
+    get() {
+      /**
+       * "this" will refer to whatever triggers this method, in
+       * this it'll be the object in which we originally defined
+       * the method.
+       */
+      const boundFunc = originalMethod.bind(this);
+      return boundFunc;
+    },
+  };
+
+  // this will overwrite the original descriptor
+  return adjustedDescriptor;
+}
+
+// dummy class
+class Printer {
+  message = "This works!";
+
+  // using our newly created decorator
+  @AutoBind
+  showMessage() {
+    console.log(this.message);
+  }
+}
+
+const p = new Printer();
+const btn = document.querySelector("button")!;
+/**
+ * Here we had to use the ".bind()" method to change the "scope"
+ * of the "this" keyword to be the "p" object and not the "target"
+ * (button element) attached to the "addEventListener" function.
+ */
+// btn.addEventListener("click", p.showMessage.bind(p));
+
+/**
+ * With our "AutoBind" method decorator we don't need to bind
+ * the "this" keyword manually like on the example right above
+ * anymore and it could be reusable!
+ */
+btn.addEventListener("click", p.showMessage);
+
+// now it binds "this" correctly no matter where we call it.
+p.showMessage();
+
+// ============= Validation With Decorators Example ==============
+
+/**
+ * Every rule we register for a property keeps its name and the
+ * parameters it was configured with (e.g. the "3" in "@MinLength(3)"),
+ * so the "validate" function knows how to run it later.
+ */
+interface ValidatorRule {
+  name: string;
+  params: any[];
+
+  // when "true" the rule runs on every item of an array (see "@Each").
+  each?: boolean;
+
+  // the rule only runs for these groups (see "@Groups").
+  groups?: string[];
+
+  // the rule only runs when this returns "true" (see "@ValidateIf").
+  condition?: (obj: any) => boolean;
+}
+
+// the rules of a single class, grouped by property name.
+interface ValidatorConfig {
+  [validatableProp: string]: ValidatorRule[]; // [{ name: 'required', params: [] }]
+}
+
+/**
+ * A validator definition holds the logic of a rule, "test" receives
+ * the value of the property, the params stored with the rule and the
+ * whole object (in case a rule needs to look at other properties).
+ *
+ * "message" builds the human-readable text we show when the rule
+ * fails, it's optional so custom rules can be registered quickly.
+ *
+ * Rules marked as "async" return a promise from "test" (e.g. they
+ * need to check something in a store or a server), so they only run
+ * in "validateAsync" and they receive its "AbortSignal" as well.
+ */
+interface ValidatorDefinition {
+  async?: boolean;
+  test: (
+    value: any,
+    params: any[],
+    obj: any,
+    signal?: AbortSignal
+  ) => boolean | Promise<boolean>;
+  message?: (propName: string, params: any[]) => string;
+}
+
+/**
+ * Without "groups" every rule runs, with them only the rules without
+ * any group and the rules of at least one of the groups will run.
+ */
+interface ValidationOptions {
+  groups?: string[];
+}
+
+interface AsyncValidationOptions extends ValidationOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything we need to carry around while we walk through an object
+ * and its nested objects.
+ *
+ * "pending" is where "validateAsync" collects the promises of the
+ * async rules, so they can run concurrently (the sync functions don't
+ * send it, so async rules are skipped there).
+ */
+interface ValidationContext {
+  result: ValidationResult;
+  // the objects we're inside of, from the root to the current one.
+  ancestors: Set<any>;
+  groups?: string[];
+  pending?: Promise<void>[];
+  signal?: AbortSignal;
+}
+
+/**
+ * What we know about a single rule that failed, for nested objects
+ * "property" is the whole path to the value, e.g. "employees[2].name".
+ */
+interface ValidationError {
+  property: string;
+  rule: string;
+  params: any[];
+  message: string;
+}
+
+/**
+ * The same idea of the "ErrorContainer" index type from the
+ * advanced-types file, we don't know which properties will fail, so
+ * we just say every key will hold a string (the first message of
+ * that property). Since it has no "id", we can spread it straight
+ * into an error bag, e.g. "{ id: '007', ...result.messages }".
+ */
+interface ValidationMessages {
+  [property: string]: string;
+}
+
+interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+  messages: ValidationMessages;
+}
+
+/**
+ * The rules of each property are stored in the metadata store (see
+ * the top of the file) with this key.
+ *
+ * We used to keep them in an object keyed by "constructor.name", but
+ * two classes with the same name (in different files) would share
+ * their rules and a minifier can rename classes, so now they're
+ * stored on the prototype of the class itself.
+ */
+const VALIDATOR_RULES = "validation:rules";
+
+/**
+ * Here we store the logic of every rule by its name, this way
+ * "validate" doesn't need a "switch" with hard-coded rules anymore
+ * and we can add new rules without editing it.
+ */
+const validatorDefinitions: { [ruleName: string]: ValidatorDefinition } = {};
+
+/**
+ * This is the public way to teach our validation system a new rule,
+ * after registering it we can use it on any property with the
+ * "ValidateWith" decorator factory (see bellow).
+ */
+function registerValidatorRule(name: string, definition: ValidatorDefinition) {
+  if (validatorDefinitions[name]) {
+    throw new Error(`Validator rule "${name}" is already registered!`);
+  }
+
+  validatorDefinitions[name] = definition;
+}
+
+/**
+ * All the decorators bellow use this helper to register a rule.
+ *
+ * Remember that a "property decorator" receive 2 arguments (target
+ * and name), for instance properties the "target" is the prototype
+ * (or the context of the field, for standard decorators).
+ */
+function addValidatorRule(
+  target: any,
+  propName: FieldNameOrContext,
+  rule: ValidatorRule
+) {
+  onMemberDefined(target, propName, (owner, name) => {
+    const ownRules: ValidatorRule[] =
+      getOwnMetadata(VALIDATOR_RULES, owner, name) ?? [];
+
+    defineMetadata(VALIDATOR_RULES, [...ownRules, rule], owner, name);
+  });
+}
+
+/**
+ * Returns all the rules of a class, including the ones declared on
+ * its parent classes.
+ *
+ * We go through the rules of each class in the prototype chain
+ * starting from the base class, so a rule declared on a subclass
+ * replaces a rule with the same name declared on a parent class for
+ * the same property (e.g. a different "@MaxLength") and new rules are
+ * just added to the list.
+ *
+ * The "@Groups" and "@ValidateIf" of the property are added to copies
+ * of the rules, the stored rules are never changed.
+ */
+function getValidatorRules(targetClass: Function): ValidatorConfig {
+  const mergedConfig: ValidatorConfig = {};
+
+  for (const member of getDecoratedMembers(targetClass)) {
+    const prop = member.name;
+
+    if (
+      member.isStatic ||
+      typeof prop !== "string" ||
+      member.keys.indexOf(VALIDATOR_RULES) === -1
+    ) {
+      continue;
+    }
+
+    const rulesChain: ValidatorRule[][] = getMetadataChain(
+      VALIDATOR_RULES,
+      targetClass.prototype,
+      prop
+    );
+
+    const groups: string[] | undefined = getMetadata(
+      VALIDATION_GROUPS,
+      targetClass.prototype,
+      prop
+    );
+    const condition: ((obj: any) => boolean) | undefined = getMetadata(
+      VALIDATION_CONDITION,
+      targetClass.prototype,
+      prop
+    );
+
+    mergedConfig[prop] = rulesChain
+      .reduce(
+        (inheritedRules, ownRules) => [
+          ...inheritedRules.filter(
+            (inherited) =>
+              !ownRules.some(
+                (rule) =>
+                  rule.name === inherited.name &&
+                  !!rule.each === !!inherited.each
+              )
+          ),
+          ...ownRules,
+        ],
+        []
+      )
+      .map((rule) => {
+        const tagged = { ...rule };
+
+        if (groups && !tagged.groups) {
+          tagged.groups = groups;
+        }
+
+        if (condition && !tagged.condition) {
+          tagged.condition = condition;
+        }
+
+        return tagged;
+      });
+  }
+
+  return mergedConfig;
+}
+
+/**
+ * A decorator factory that works with any registered rule (including
+ * our custom ones), the extra arguments are stored as the params of
+ * the rule.
+ */
+function ValidateWith(name: string, ...params: any[]) {
+  return function (target: any, propName: FieldNameOrContext) {
+    addValidatorRule(target, propName, { name, params });
+  };
+}
+
+// the property decorators that don't need any configuration...
+function Required(target: any, propName: FieldNameOrContext) {
+  addValidatorRule(target, propName, { name: "required", params: [] });
+}
+
+function PositiveNumber(target: any, propName: FieldNameOrContext) {
+  addValidatorRule(target, propName, { name: "positive", params: [] });
+}
+
+function Email(target: any, propName: FieldNameOrContext) {
+  addValidatorRule(target, propName, { name: "email", params: [] });
+}
+
+function IsInteger(target: any, propName: FieldNameOrContext) {
+  addValidatorRule(target, propName, { name: "integer", params: [] });
+}
+
+// ...and the decorator factories, since these rules need params.
+function MinLength(length: number) {
+  return ValidateWith("minLength", length);
+}
+
+function MaxLength(length: number) {
+  return ValidateWith("maxLength", length);
+}
+
+function Min(min: number) {
+  return ValidateWith("min", min);
+}
+
+function Max(max: number) {
+  return ValidateWith("max", max);
+}
+
+function Pattern(regex: RegExp) {
+  return ValidateWith("pattern", regex);
+}
+
+function OneOf(values: any[]) {
+  return ValidateWith("oneOf", values);
+}
+
+/**
+ * An async rule, "isUnique" receives the title and resolves to "true"
+ * if no other course uses it yet.
+ */
+function UniqueTitle(
+  isUnique: (title: string, signal?: AbortSignal) => Promise<boolean>
+) {
+  return ValidateWith("uniqueTitle", isUnique);
+}
+
+/**
+ * These 2 decorators don't add rules, they're stored apart and
+ * "getValidatorRules" applies them to all the rules of the property,
+ * the inherited ones too, no matter where they're written, e.g.
+ *
+ *  @Groups("create")
+ *  @Required         <- only runs for the "create" group.
+ *  @MaxLength(50)    <- this one too.
+ *
+ * A subclass can use them again on the same property, the closest
+ * class wins.
+ */
+const VALIDATION_GROUPS = "validation:groups";
+const VALIDATION_CONDITION = "validation:condition";
+
+function Groups(...groups: string[]) {
+  return function (target: any, propName: FieldNameOrContext) {
+    onMemberDefined(target, propName, (owner, name) => {
+      defineMetadata(VALIDATION_GROUPS, groups, owner, name);
+    });
+  };
+}
+
+/**
+ * The rules only run if the predicate returns "true", it receives the
+ * whole object, so it can look at other properties.
+ */
+function ValidateIf(predicate: (obj: any) => boolean) {
+  return function (target: any, propName: FieldNameOrContext) {
+    onMemberDefined(target, propName, (owner, name) => {
+      defineMetadata(VALIDATION_CONDITION, predicate, owner, name);
+    });
+  };
+}
+
+/**
+ * TS types are gone after compilation, so if we want to know at
+ * runtime that a property holds a number (e.g. to convert the value
+ * of an input), we have to tell it with a decorator, we use the
+ * built-in constructors (Number, String...) as the type, like
+ * "@FieldType(Number)".
+ */
+type FieldConstructor =
+  | StringConstructor
+  | NumberConstructor
+  | BooleanConstructor
+  | DateConstructor;
+
+function FieldType(type: FieldConstructor) {
+  return function (target: any, propName: FieldNameOrContext) {
+    onMemberDefined(target, propName, (owner, name) => {
+      defineMetadata("form:fieldType", type, owner, name);
+    });
+  };
+}
+
+// looks for the type in the class and its parents.
+function getFieldType(
+  targetClass: Function,
+  propName: string
+): FieldConstructor | undefined {
+  return getMetadata("form:fieldType", targetClass.prototype, propName);
+}
+
+/**
+ * "@ValidateNested" tells "validate" to also check the rules of the
+ * object stored in the property (or of every object in it, if it's
+ * an array), it's not a regular rule, so it has no definition.
+ */
+function ValidateNested(target: any, propName: FieldNameOrContext) {
+  addValidatorRule(target, propName, { name: "nested", params: [] });
+}
+
+/**
+ * "@Each" applies any registered rule to every item of an array,
+ * e.g. "@Each('minLength', 3)".
+ */
+function Each(name: string, ...params: any[]) {
+  return function (target: any, propName: FieldNameOrContext) {
+    addValidatorRule(target, propName, { name, params, each: true });
+  };
+}
+
+/**
+ * The built-in rules are registered exactly like a custom rule would
+ * be, there's nothing special about them.
+ */
+registerValidatorRule("required", {
+  /**
+   * Here we used "!!" (bang operator) to convert the value to a
+   * boolean, because we want to return "true" if the object has a
+   * non empty value.
+   */
+  test: (value) => !!value,
+  message: (propName) => `${propName} is required.`,
+});
+
+registerValidatorRule("positive", {
+  test: (value) => value > 0,
+  message: (propName) => `${propName} must be a positive number.`,
+});
+
+registerValidatorRule("minLength", {
+  test: (value, [length]) => value != null && value.length >= length,
+  message: (propName, [length]) =>
+    `${propName} must have at least ${length} characters.`,
+});
+
+registerValidatorRule("maxLength", {
+  test: (value, [length]) => value != null && value.length <= length,
+  message: (propName, [length]) =>
+    `${propName} must have at most ${length} characters.`,
+});
+
+registerValidatorRule("min", {
+  test: (value, [min]) => typeof value === "number" && value >= min,
+  message: (propName, [min]) => `${propName} must be at least ${min}.`,
+});
+
+registerValidatorRule("max", {
+  test: (value, [max]) => typeof value === "number" && value <= max,
+  message: (propName, [max]) => `${propName} must be at most ${max}.`,
+});
+
+registerValidatorRule("pattern", {
+  test: (value, [regex]: RegExp[]) => {
+    /**
+     * A regex with the "g" flag remembers where it stopped the last
+     * time it was used, so we reset it before testing a new value.
+     */
+    regex.lastIndex = 0;
+    return typeof value === "string" && regex.test(value);
+  },
+  message: (propName, [regex]) => `${propName} must match ${regex}.`,
+});
+
+registerValidatorRule("email", {
+  test: (value) =>
+    typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  message: (propName) => `${propName} must be a valid e-mail.`,
+});
+
+registerValidatorRule("integer", {
+  test: (value) => Number.isInteger(value),
+  message: (propName) => `${propName} must be an integer.`,
+});
+
+registerValidatorRule("uniqueTitle", {
+  async: true,
+  test: (value, [isUnique], _, signal) => isUnique(value, signal),
+  message: (propName) => `${propName} is already in use.`,
+});
+
+// used by "@Each" when the value isn't even an array.
+registerValidatorRule("array", {
+  test: (value) => Array.isArray(value),
+  message: (propName) => `${propName} must be an array.`,
+});
+
+registerValidatorRule("oneOf", {
+  test: (value, [values]) => values.indexOf(value) !== -1,
+  message: (propName, [values]) =>
+    `${propName} must be one of: ${values.join(", ")}.`,
+});
+
+// adds a failed rule to the result.
+function addValidationError(
+  path: string,
+  rule: ValidatorRule,
+  definition: ValidatorDefinition,
+  result: ValidationResult
+) {
+  const message = definition.message
+    ? definition.message(path, rule.params)
+    : `${path} is invalid.`;
+
+  result.valid = false;
+  result.errors.push({
+    property: path,
+    rule: rule.name,
+    params: rule.params,
+    message,
+  });
+
+  // only the first message of each property goes to the "bag".
+  result.messages[path] = result.messages[path] ?? message;
+}
+
+/**
+ * Checks the tags added by "@Groups" and "@ValidateIf" to tell if a
+ * rule should run for this object.
+ */
+function isRuleActive(
+  rule: ValidatorRule,
+  obj: any,
+  context: ValidationContext
+) {
+  const requestedGroups = context.groups;
+
+  if (requestedGroups && rule.groups) {
+    const inRequestedGroup = rule.groups.some(
+      (group) => requestedGroups.indexOf(group) !== -1
+    );
+
+    if (!inRequestedGroup) {
+      return false;
+    }
+  }
+
+  return !rule.condition || rule.condition(obj);
+}
+
+/**
+ * Runs a single rule against a value and adds an error to the result
+ * if it fails, "path" is the name we show for the value.
+ *
+ * Async rules are skipped unless the context has a "pending" list
+ * (only "validateAsync" sends one), in that case we don't wait for
+ * them here, we just store their promises.
+ */
+function runValidatorRule(
+  value: any,
+  path: string,
+  rule: ValidatorRule,
+  obj: any,
+  context: ValidationContext
+) {
+  const definition = validatorDefinitions[rule.name];
+
+  if (!definition) {
+    throw new Error(`Unknown validator rule "${rule.name}"!`);
+  }
+
+  if (definition.async) {
+    if (context.pending) {
+      const signal = context.signal;
+
+      context.pending.push(
+        Promise.resolve(definition.test(value, rule.params, obj, signal)).then(
+          (isValid) => {
+            // a cancelled validation must not touch the result anymore.
+            if (!isValid && !signal?.aborted) {
+              addValidationError(path, rule, definition, context.result);
+            }
+          }
+        )
+      );
+    }
+
+    return;
+  }
+
+  if (!definition.test(value, rule.params, obj)) {
+    addValidationError(path, rule, definition, context.result);
+  }
+}
+
+/**
+ * This function goes through all registered validators of an object,
+ * runs the logic of each rule it finds and calls itself again for
+ * nested objects, adding their property names to the "path".
+ *
+ * The "ancestors" set protects us from objects that point to each
+ * other (e.g. an employee that points back to its department),
+ * otherwise we would be stuck in an infinite loop. It only has the
+ * objects we're inside of, so the same object in two places that
+ * aren't inside each other is validated in both (with both paths).
+ */
+function collectValidationErrors(
+  obj: any,
+  path: string,
+  context: ValidationContext
+) {
+  if (context.ancestors.has(obj)) {
+    return;
+  }
+  context.ancestors.add(obj);
+
+  /**
+   * If there's nothing to validate we get an empty object, so the
+   * loop won't run and the result is certainly already valid.
+   */
+  const objValidatorConfig = getValidatorRules(obj.constructor);
+
+  /**
+   * The loop bellow give us access to all the properties names
+   * which might have validators.
+   */
+  for (const prop in objValidatorConfig) {
+    const propPath = path ? `${path}.${prop}` : prop;
+    const value = obj[prop];
+
+    /**
+     * Since we get an array, we loop over it to get each rule and
+     * look up its logic in the validatorDefinitions.
+     */
+    for (const rule of objValidatorConfig[prop]) {
+      if (!isRuleActive(rule, obj, context)) {
+        continue;
+      }
+
+      if (rule.name === "nested") {
+        /**
+         * Empty values are the job of "@Required", here we only care
+         * about what's inside of the value.
+         */
+        if (value == null) {
+          continue;
+        }
+
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => {
+            if (item != null) {
+              collectValidationErrors(item, `${propPath}[${index}]`, context);
+            }
+          });
+        } else {
+          collectValidationErrors(value, propPath, context);
+        }
+
+        continue;
+      }
+
+      if (rule.each) {
+        if (!Array.isArray(value)) {
+          runValidatorRule(
+            value,
+            propPath,
+            { name: "array", params: [] },
+            obj,
+            context
+          );
+          continue;
+        }
+
+        value.forEach((item, index) =>
+          runValidatorRule(item, `${propPath}[${index}]`, rule, obj, context)
+        );
+        continue;
+      }
+
+      runValidatorRule(value, propPath, rule, obj, context);
+    }
+  }
+
+  context.ancestors.delete(obj);
+}
+
+function createValidationContext(groups?: string[]): ValidationContext {
+  return {
+    result: { valid: true, errors: [], messages: {} },
+    ancestors: new Set(),
+    groups,
+  };
+}
+
+/**
+ * This function should go through all registered validators (of the
+ * object and its nested objects) and collect every rule that failed,
+ * async rules are skipped here (see "validateAsync" bellow).
+ */
+function validateDetailed(
+  obj: any,
+  options: ValidationOptions = {}
+): ValidationResult {
+  const context = createValidationContext(options.groups);
+  collectValidationErrors(obj, "", context);
+  return context.result;
+}
+
+/**
+ * The async version runs the sync rules right away and all the async
+ * rules at the same time (concurrently), then it merges their errors
+ * into the same result.
+ *
+ * If the "signal" is aborted (e.g. the user submitted the form again)
+ * the returned promise is rejected with an "AbortError", so whoever
+ * is waiting for the old validation can just ignore it.
+ */
+async function validateAsync(
+  obj: any,
+  options: AsyncValidationOptions = {}
+): Promise<ValidationResult> {
+  const { signal } = options;
+  const context = createValidationContext(options.groups);
+  const pending: Promise<void>[] = [];
+  context.pending = pending;
+  context.signal = signal;
+
+  collectValidationErrors(obj, "", context);
+
+  await new Promise<void>((resolve, reject) => {
+    const abort = () =>
+      reject(new DOMException("Validation was cancelled.", "AbortError"));
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+
+    signal?.addEventListener("abort", abort);
+
+    Promise.all(pending).then(
+      () => {
+        signal?.removeEventListener("abort", abort);
+        resolve();
+      },
+      (error) => {
+        signal?.removeEventListener("abort", abort);
+        reject(error);
+      }
+    );
+  });
+
+  return context.result;
+}
+
+/**
+ * The original boolean version still works, now it just asks the
+ * detailed one if everything went fine.
+ */
+function validate(obj: any, options: ValidationOptions = {}) {
+  return validateDetailed(obj, options).valid;
+}
+
+/**
+ * A local "store" of the titles we already have, the check bellow
+ * waits a bit to pretend it's a request to a server and gives up if
+ * the validation is cancelled.
+ */
+const courseTitles = [
+  "Understanding TypeScript",
+  "React - The Complete Guide",
+];
+
+function isCourseTitleUnique(title: string, signal?: AbortSignal) {
+  return new Promise<boolean>((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Title check was cancelled.", "AbortError"));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", cancel);
+      resolve(courseTitles.indexOf(title) === -1);
+    }, 500);
+
+    signal?.addEventListener("abort", cancel);
+  });
+}
+
+class Course {
+  /**
+   * We registered these props and their validators in the metadata
+   * store when the class is defined.
+   */
+  @Required
+  @MaxLength(50)
+  @UniqueTitle(isCourseTitleUnique)
+  title: string;
+
+  @PositiveNumber
+  @FieldType(Number)
+  price: number;
+
+  constructor(t: string, p: number) {
+    this.title = t;
+    this.price = p;
+  }
+}
+
+/**
+ * A subclass inherits all the rules of "Course", here we replaced its
+ * "@MaxLength(50)" with a longer one and added a new property with
+ * its own rules.
+ */
+class Bootcamp extends Course {
+  @MaxLength(100)
+  title: string;
+
+  @IsInteger
+  @Min(1)
+  weeks: number;
+
+  constructor(t: string, p: number, w: number) {
+    super(t, p);
+    this.title = t;
+    this.weeks = w;
+  }
+}
+
+// { title: [required, maxLength(100)], price: [positive], weeks: [...] }
+console.log(getValidatorRules(Bootcamp));
+console.log(validate(new Bootcamp("Full-stack TypeScript", 2000, 12))); // true
+
+/**
+ * A department holds a list of employees (like the "Department" class
+ * in the classes file) and each employee holds a list of privileges
+ * (like the "elevatedEmployee" type in the advanced-types file).
+ */
+class StaffMember {
+  @Required
+  @MinLength(2)
+  name: string;
+
+  @Each("oneOf", ["read", "write", "admin"])
+  privileges: string[];
+
+  constructor(name: string, privileges: string[]) {
+    this.name = name;
+    this.privileges = privileges;
+  }
+}
+
+class StaffDepartment {
+  @Required
+  name: string;
+
+  @ValidateNested
+  employees: StaffMember[];
+
+  constructor(name: string, employees: StaffMember[]) {
+    this.name = name;
+    this.employees = employees;
+  }
+}
+
+const staffDepartment = new StaffDepartment("Accounting", [
+  new StaffMember("Clayton", ["read", "write"]),
+  new StaffMember("Maria", ["read", "delete"]),
+  new StaffMember("", ["read"]),
+]);
+
+/**
+ * { "employees[1].privileges[1]": "... must be one of: read, write,
+ * admin.", "employees[2].name": "... must have at least 2 characters." }
+ */
+console.log(validateDetailed(staffDepartment).messages);
+
+/**
+ * Here the "id" only exists after the workshop was created, so it's
+ * only required when we validate an update, and the price is only
+ * required when the workshop isn't free.
+ */
+class Workshop {
+  @Groups("update")
+  @Required
+  id?: string;
+
+  @Groups("create", "update")
+  @Required
+  title: string;
+
+  @ValidateIf((workshop: Workshop) => !workshop.isFree)
+  @Required
+  @PositiveNumber
+  price?: number;
+
+  isFree: boolean;
+
+  constructor(title: string, isFree: boolean, price?: number, id?: string) {
+    this.title = title;
+    this.isFree = isFree;
+    this.price = price;
+    this.id = id;
+  }
+}
+
+const freeWorkshop = new Workshop("Generics in practice", true);
+console.log(validate(freeWorkshop, { groups: ["create"] })); // true
+console.log(validate(freeWorkshop, { groups: ["update"] })); // false, no id
+
+/**
+ * Here we're registering a custom rule, and now it can be used with
+ * "ValidateWith" just like the built-in ones.
+ */
+registerValidatorRule("notEqualTo", {
+  test: (value, [otherProp], obj) => value !== obj[otherProp],
+  message: (propName, [otherProp]) =>
+    `${propName} must be different from ${otherProp}.`,
+});
+
+class Coupon {
+  @Pattern(/^[A-Z0-9]{6}$/)
+  code: string;
+
+  @Email
+  @ValidateWith("notEqualTo", "ownerEmail")
+  recipientEmail: string;
+
+  @Email
+  ownerEmail: string;
+
+  @IsInteger
+  @Min(1)
+  @Max(100)
+  discount: number;
+
+  @OneOf(["course", "ebook", "bundle"])
+  appliesTo: string;
+
+  constructor(
+    code: string,
+    recipientEmail: string,
+    ownerEmail: string,
+    discount: number,
+    appliesTo: string
+  ) {
+    this.code = code;
+    this.recipientEmail = recipientEmail;
+    this.ownerEmail = ownerEmail;
+    this.discount = discount;
+    this.appliesTo = appliesTo;
+  }
+}
+
+const coupon = new Coupon(
+  "TS2023",
+  "student@mail.com",
+  "clayton@mail.com",
+  15,
+  "course"
+);
+console.log(validate(coupon)); // true
+
+/**
+ * Since "messages" is an index type, it fits right into the
+ * "ErrorContainer" interface from the advanced-types file.
+ */
+const couponErrorBag: ErrorContainer = {
+  id: "coupon",
+  ...validateDetailed(coupon).messages,
+};
+console.log(couponErrorBag);
+
+// ============= Binding Forms With Decorators ==============
+
+interface BindFormOptions<T> {
+  groups?: string[];
+  onSubmit?: (instance: T) => void;
+  // called when the validation itself fails (e.g. a request of an async rule).
+  onError?: (error: unknown) => void;
+}
+
+type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/**
+ * Values from inputs are always strings, so we convert them to the
+ * type declared with "@FieldType" (empty inputs become "undefined",
+ * otherwise "+''" would turn into a valid 0).
+ */
+function coerceFieldValue(field: FormField, type: FieldConstructor) {
+  if (type === Boolean) {
+    return field instanceof HTMLInputElement && field.type === "checkbox"
+      ? field.checked
+      : field.value === "true";
+  }
+
+  if (field.value.trim() === "") {
+    return type === String ? "" : undefined;
+  }
+
+  if (type === Number) {
+    return Number(field.value);
+  }
+
+  if (type === Date) {
+    return new Date(field.value);
+  }
+
+  return field.value;
+}
+
+/**
+ * Shows the message of a field right after it, we reuse the element
+ * with the "data-error-for" attribute if the HTML already has one.
+ */
+function renderFieldError(
+  formEl: HTMLFormElement,
+  field: FormField,
+  message: string
+) {
+  let errorEl = formEl.querySelector(`[data-error-for="${field.name}"]`);
+
+  if (!errorEl) {
+    errorEl = document.createElement("small");
+    errorEl.setAttribute("data-error-for", field.name);
+    field.insertAdjacentElement("afterend", errorEl);
+  }
+
+  errorEl.textContent = message;
+}
+
+/**
+ * Shows an error that isn't about a field at the top of the form, we
+ * reuse the element with the "data-form-error" attribute too.
+ */
+function renderFormError(formEl: HTMLFormElement, message: string) {
+  let errorEl = formEl.querySelector("[data-form-error]");
+
+  if (!errorEl && message) {
+    errorEl = document.createElement("p");
+    errorEl.setAttribute("data-form-error", "");
+    formEl.insertAdjacentElement("afterbegin", errorEl);
+  }
+
+  if (errorEl) {
+    errorEl.textContent = message;
+  }
+}
+
+/**
+ * Connects a form to a decorated class, every input with a "name"
+ * that matches a property with validators (or a "@FieldType") is
+ * copied into an instance of the class and validated on "input",
+ * "blur" and "submit".
+ *
+ * We create the instance with "new" and without arguments (we don't
+ * know which ones the constructor expects), so the fields still get
+ * their initial values and their decorators still run, then we fill
+ * in the properties from the inputs.
+ *
+ * The messages are only shown for fields the user already left (or
+ * after a submit), but the submit button is disabled as long as the
+ * sync rules fail and while the async rules of a submit are running.
+ * If the validation itself fails (not a rule, the code of a rule),
+ * the error goes to "onError" or is shown at the top of the form.
+ * It returns a function that removes the listeners.
+ */
+function bindForm<T>(
+  formEl: HTMLFormElement,
+  targetClass: new (...args: any[]) => T,
+  options: BindFormOptions<T> = {}
+) {
+  const rules = getValidatorRules(targetClass);
+  const submitBtn = formEl.querySelector<HTMLButtonElement>(
+    'button[type="submit"]'
+  );
+  const touched = new Set<string>();
+  let pendingValidation: AbortController | undefined;
+
+  const fields = Array.from(
+    formEl.querySelectorAll<FormField>("input, select, textarea")
+  ).filter(
+    (field) =>
+      !!field.name &&
+      (!!rules[field.name] || !!getFieldType(targetClass, field.name))
+  );
+
+  const readInstance = () => {
+    const instance: any = new targetClass();
+
+    for (const field of fields) {
+      instance[field.name] = coerceFieldValue(
+        field,
+        getFieldType(targetClass, field.name) ?? String
+      );
+    }
+
+    return instance as T;
+  };
+
+  const render = (result: ValidationResult, showAll: boolean) => {
+    for (const field of fields) {
+      const show = showAll || touched.has(field.name);
+      const message = result.messages[field.name] ?? "";
+      renderFieldError(formEl, field, show ? message : "");
+    }
+
+    if (submitBtn) {
+      submitBtn.disabled = !result.valid || !!pendingValidation;
+    }
+  };
+
+  const handleChange = (event: Event) => {
+    if (event.type === "blur") {
+      touched.add((event.target as FormField).name);
+    }
+
+    render(validateDetailed(readInstance(), options), false);
+  };
+
+  const handleSubmit = async (event: Event) => {
+    event.preventDefault();
+
+    // a newer submit cancels the validation of the previous one.
+    pendingValidation?.abort();
+    const controller = new AbortController();
+    pendingValidation = controller;
+    renderFormError(formEl, "");
+
+    if (submitBtn) {
+      submitBtn.disabled = true;
+    }
+
+    const instance = readInstance();
+    let result: ValidationResult;
+
+    /**
+     * Nobody awaits this listener, so an error thrown here would just
+     * be an unhandled rejection and the form would show nothing.
+     */
+    try {
+      result = await validateAsync(instance, {
+        groups: options.groups,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+
+      pendingValidation = undefined;
+      render(validateDetailed(instance, options), true);
+
+      if (options.onError) {
+        options.onError(error);
+      } else {
+        renderFormError(formEl, "The form couldn't be validated, try again.");
+      }
+
+      return;
+    }
+
+    pendingValidation = undefined;
+    render(result, true);
+
+    if (result.valid) {
+      options.onSubmit?.(instance);
+    }
+  };
+
+  for (const field of fields) {
+    field.addEventListener("input", handleChange);
+    field.addEventListener("blur", handleChange);
+  }
+  formEl.addEventListener("submit", handleSubmit);
+
+  render(validateDetailed(readInstance(), options), false);
+
+  return () => {
+    for (const field of fields) {
+      field.removeEventListener("input", handleChange);
+      field.removeEventListener("blur", handleChange);
+    }
+    formEl.removeEventListener("submit", handleSubmit);
+  };
+}
+
+/**
+ * Now we don't need to read each input, convert the price with "+"
+ * and create the course by hand anymore, "bindForm" does it for any
+ * decorated class, the inputs just need a "name" attribute that
+ * matches the properties (see index.html).
+ */
+const courseForm = document.querySelector("form")!;
+bindForm(courseForm, Course, {
+  onSubmit: (createdCourse) => console.log(createdCourse),
+});
+
+// =========== Serialization With Decorators Example ============
+
+/**
+ * What we know about each property when we convert an object to JSON
+ * and back:
+ *  - "name": the key used in the JSON ("@Expose('price')").
+ *  - "exclude": the property is never written nor read ("@Exclude").
+ *  - "type": a function returning the class of the value, so we can
+ *    turn strings back into Dates or plain objects back into
+ *    instances ("@Type(() => Date)"). It's a function because the
+ *    class could be declared further down in the file.
+ */
+interface SerializedPropConfig {
+  name?: string;
+  exclude?: boolean;
+  type?: () => Function;
+}
+
+interface SerializationConfig {
+  [prop: string]: SerializedPropConfig;
+}
+
+const SERIALIZATION = "serialization:prop";
+
+function addSerializedPropConfig(
+  target: any,
+  propName: FieldNameOrContext | MethodNameOrContext,
+  config: SerializedPropConfig
+) {
+  onMemberDefined(target, propName, (owner, name) => {
+    const ownConfig = getOwnMetadata(SERIALIZATION, owner, name);
+    defineMetadata(SERIALIZATION, { ...ownConfig, ...config }, owner, name);
+  });
+}
+
+// the config of a class merged with the config of its parents.
+function getSerializationConfig(targetClass: Function): SerializationConfig {
+  const mergedConfig: SerializationConfig = {};
+
+  for (const member of getDecoratedMembers(targetClass)) {
+    const prop = member.name;
+
+    if (
+      !member.isStatic &&
+      typeof prop === "string" &&
+      member.keys.indexOf(SERIALIZATION) !== -1
+    ) {
+      mergedConfig[prop] = getMetadataChain(
+        SERIALIZATION,
+        targetClass.prototype,
+        prop
+      ).reduce((merged, ownConfig) => ({ ...merged, ...ownConfig }), {});
+    }
+  }
+
+  return mergedConfig;
+}
+
+/**
+ * A class decorator that adds a "toJSON" method to the prototype, so
+ * "JSON.stringify" already uses our rules (it calls "toJSON" on every
+ * object it finds that has one).
+ */
+function Serializable(constructor: Function, _context?: ClassDecoratorContext) {
+  defineMetadata("serialization:serializable", true, constructor);
+  Object.defineProperty(constructor.prototype, "toJSON", {
+    configurable: true,
+    enumerable: false,
+    writable: true,
+    value: function () {
+      return toJSON(this);
+    },
+  });
+}
+
+/**
+ * "@Expose" can rename a property in the JSON and it also includes
+ * properties that aren't fields of the instance (e.g. getters).
+ */
+function Expose(name?: string) {
+  return function (
+    target: any,
+    propName: FieldNameOrContext | MethodNameOrContext,
+    _descriptor?: PropertyDescriptor
+  ) {
+    // without a name, the property keeps its own name in the JSON.
+    addSerializedPropConfig(target, propName, { name });
+  };
+}
+
+function Exclude(target: any, propName: FieldNameOrContext) {
+  addSerializedPropConfig(target, propName, { exclude: true });
+}
+
+function Type(typeFn: () => Function) {
+  return function (target: any, propName: FieldNameOrContext) {
+    addSerializedPropConfig(target, propName, { type: typeFn });
+  };
+}
+
+/**
+ * "ancestors" are the objects (and arrays) we're in the middle of
+ * converting, if the value is one of them, it contains itself and we
+ * would never finish. The same object in two places that aren't
+ * inside each other is fine, it's just written twice.
+ */
+function serializeValue(value: any, ancestors: object[]): any {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value !== null && typeof value === "object") {
+    if (ancestors.indexOf(value) !== -1) {
+      const name = value.constructor?.name ?? "Object";
+      throw new Error(
+        `Can't convert to JSON, the ${name} contains itself ` +
+          "(circular reference)."
+      );
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => serializeValue(item, [...ancestors, value]));
+    }
+
+    return toJSON(value, ancestors);
+  }
+
+  return value;
+}
+
+/**
+ * Converts an instance into a plain object that can be passed to
+ * "JSON.stringify", by default every field of the instance is kept
+ * (including private ones like "_price", TS "private" doesn't exist
+ * at runtime), then the decorators rename, add or remove properties.
+ */
+function toJSON(
+  instance: any,
+  ancestors: object[] = []
+): { [key: string]: any } {
+  const config = getSerializationConfig(instance.constructor);
+  const json: { [key: string]: any } = {};
+  const props = Object.keys(instance);
+  const path = [...ancestors, instance];
+
+  for (const prop in config) {
+    if (config[prop].name && props.indexOf(prop) === -1) {
+      props.push(prop);
+    }
+  }
+
+  for (const prop of props) {
+    const propConfig = config[prop] ?? {};
+
+    if (propConfig.exclude || typeof instance[prop] === "function") {
+      continue;
+    }
+
+    json[propConfig.name ?? prop] = serializeValue(instance[prop], path);
+  }
+
+  return json;
+}
+
+function deserializeValue(value: any, type?: () => Function): any {
+  if (value == null || !type) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => deserializeValue(item, type));
+  }
+
+  const typeClass = type();
+
+  if (typeClass === Date) {
+    return new Date(value);
+  }
+
+  return typeof value === "object" ? fromJSON(typeClass, value) : value;
+}
+
+/**
+ * A class can finish restoring itself after "fromJSON" put the fields
+ * back, e.g. to recreate what JSON can't keep (like functions).
+ */
+interface SerializationHooks {
+  onDeserialized?(): void;
+}
+
+// the closest getter/setter or method with the name in the chain.
+function findPropertyDescriptor(target: object, prop: string) {
+  let current: object | null = target;
+
+  while (current) {
+    const descriptor = Object.getOwnPropertyDescriptor(current, prop);
+
+    if (descriptor) {
+      return descriptor;
+    }
+
+    current = Object.getPrototypeOf(current);
+  }
+}
+
+/**
+ * The opposite of "toJSON", it receives the class and the JSON (as a
+ * string or an already parsed object) and returns an instance.
+ *
+ * We create the instance with "Object.create", so it works with
+ * classes that have a private constructor (like "SalesDepartment" in
+ * the classes file) and the constructor logic doesn't run again, we
+ * just put the fields back.
+ *
+ * Values without "@Type" are assigned as they are, so a Date without
+ * it would come back as a string.
+ *
+ * Getters and setters of the class (e.g. an "@Expose"d getter) aren't
+ * fields, a getter is computed from the fields and a setter could do
+ * anything (like "mostRecentReport", that adds a report), so we skip
+ * them. The fields that "@Observable" turns into accessors are still
+ * fields, they become observable again.
+ */
+function fromJSON<T extends object>(
+  targetClass: Function & { prototype: T },
+  json: string | { [key: string]: any }
+): T {
+  const data = typeof json === "string" ? JSON.parse(json) : json;
+  const config = getSerializationConfig(targetClass);
+  const instance: any = Object.create(targetClass.prototype);
+
+  // the opposite of the "@Expose" names, JSON key -> property name.
+  const propNames: { [key: string]: string } = {};
+  for (const prop in config) {
+    propNames[config[prop].name ?? prop] = prop;
+  }
+
+  for (const key of Object.keys(data)) {
+    const prop = propNames[key] ?? key;
+    const propConfig = config[prop] ?? {};
+
+    if (propConfig.exclude) {
+      continue;
+    }
+
+    const value = deserializeValue(data[key], propConfig.type);
+    const observable = getMetadata(
+      "observe:observable",
+      targetClass.prototype,
+      prop
+    );
+    const descriptor = findPropertyDescriptor(targetClass.prototype, prop);
+
+    if (observable === "field") {
+      defineObservableField(instance, prop, value);
+    } else if (!descriptor?.get && !descriptor?.set) {
+      instance[prop] = value;
+    }
+  }
+
+  (instance as SerializationHooks).onDeserialized?.();
+
+  return instance as T;
+}
+
+/**
+ * A class version of the "CourseGoal" interface from the generics
+ * file, "completeUntil" is a Date, so it needs "@Type" to come back
+ * as one.
+ */
+@Serializable
+class CourseGoalEntry implements CourseGoal {
+  title: string;
+  description: string;
+
+  @Type(() => Date)
+  completeUntil: Date;
+
+  constructor(title: string, description: string, completeUntil: Date) {
+    this.title = title;
+    this.description = description;
+    this.completeUntil = completeUntil;
+  }
+}
+
+@Serializable
+class CoursePlan {
+  @Type(() => Course)
+  @Expose("courseInfo")
+  course: Course;
+
+  @Type(() => CourseGoalEntry)
+  goals: CourseGoalEntry[];
+
+  // notes only make sense while editing, so they never leave the app.
+  @Exclude
+  draftNotes = "";
+
+  constructor(course: Course, goals: CourseGoalEntry[]) {
+    this.course = course;
+    this.goals = goals;
+  }
+}
+
+const plan = new CoursePlan(new Course("Understanding TypeScript", 50), [
+  new CourseGoalEntry("Decorators", "Finish the section", new Date(2023, 5, 1)),
+]);
+plan.draftNotes = "Maybe add a section about serialization";
+
+/**
+ * {"courseInfo":{"title":"...","price":50},"goals":[{"title":...,
+ * "completeUntil":"2023-06-01T..."}]}, no "draftNotes".
+ */
+const planJson = JSON.stringify(plan);
+console.log(planJson);
+
+const restoredPlan = fromJSON(CoursePlan, planJson);
+console.log(restoredPlan.goals[0].completeUntil instanceof Date); // true
+console.log(restoredPlan.course instanceof Course); // true
+
+/**
+ * "Product" has no decorators for this, but it still round-trips,
+ * with its private "_price" field, and the instance we get back still
+ * has all the methods of the class.
+ */
+const restoredVideoGame = fromJSON(Product, toJSON(videoGame));
+console.log(restoredVideoGame.getPriceWithtax(0.1));
+
+// an object inside itself can't be written, we get an error instead.
+const loopingGoal: any = { title: "Repeat" };
+loopingGoal.next = loopingGoal;
+
+try {
+  toJSON(loopingGoal);
+} catch (error) {
+  // Can't convert to JSON, the Object contains itself (circular...
+  console.log(error);
+}
+
+/**
+ * "SalesDepartment" isn't decorated (it's in the classes file, which
+ * must be loaded before this one in the index.html file for this
+ * example), its private fields are its own business, so it says what
+ * goes into the JSON with its own "toJSON" and puts its Dates back in
+ * "onDeserialized", "fromJSON" still creates the instance for it.
+ */
+if (typeof SalesDepartment === "function") {
+  const salesJson = JSON.stringify(SalesDepartment.getInstance());
+  const restoredSales = fromJSON(SalesDepartment, salesJson);
+
+  // ["blocklist"] true
+  console.log(
+    restoredSales.getAdmissionPolicies(),
+    restoredSales.getEmployees()[0]?.startDate instanceof Date
+  );
+  console.log(restoredSales.mostRecentReport);
+}
+
+// ========== Dependency Injection With Decorators Example ==========
+
+/**
+ * A token is what we ask the container for, it can be a class (the
+ * most common case) or a string/symbol for values that aren't
+ * classes (e.g. a configuration).
+ */
+type InjectionToken<T = any> = (new (...args: any[]) => T) | string | symbol;
+
+/**
+ * How long an instance lives:
+ *  - "singleton": one instance for the container that has the
+ *    provider and all of its children.
+ *  - "scoped": one instance per container, so each child container
+ *    (e.g. one per request or per form) gets its own.
+ *  - "transient": a new instance every time it's resolved.
+ */
+type Lifetime = "singleton" | "scoped" | "transient";
+
+/**
+ * A provider tells the container how to create the value of a token,
+ * only one of "useClass", "useValue" or "useFactory" should be set.
+ */
+interface Provider<T = any> {
+  useClass?: new (...args: any[]) => T;
+  useValue?: T;
+  useFactory?: (container: Container) => T;
+  lifetime?: Lifetime;
+}
+
+/**
+ * Marks a class as something the container can create on its own,
+ * even without registering it first ("transient" by default).
+ *
+ * "inject" lists the tokens of the constructor params, it does the
+ * same as "@Inject" on each param, but it also works with standard
+ * decorators (they can't decorate params).
+ */
+interface InjectableOptions {
+  lifetime?: Lifetime;
+  inject?: InjectionToken[];
+}
+
+function Injectable(options: InjectableOptions = {}) {
+  return function (constructor: Function, _context?: ClassDecoratorContext) {
+    const lifetime = options.lifetime ?? "transient";
+    defineMetadata("di:injectable", lifetime, constructor);
+
+    (options.inject ?? []).forEach((token, position) => {
+      defineMetadata("di:inject", token, constructor, undefined, position);
+    });
+  };
+}
+
+/**
+ * A "parameter decorator" that tells the container what to pass to a
+ * constructor param, we need it because the TS types of the params
+ * don't exist at runtime.
+ *
+ * On a constructor param the "target" is the class itself and the
+ * "name" is "undefined" (there's no method name).
+ */
+function Inject(token: InjectionToken) {
+  return function (
+    target: any,
+    name: string | symbol | undefined,
+    position: number
+  ) {
+    if (name !== undefined) {
+      throw new Error(
+        `@Inject can only be used on constructor params (found on "${String(
+          name
+        )}").`
+      );
+    }
+
+    defineMetadata("di:inject", token, target, undefined, position);
+  };
+}
+
+function tokenName(token: InjectionToken) {
+  return typeof token === "function" ? token.name : String(token);
+}
+
+class Container {
+  private providers = new Map<InjectionToken, Provider>();
+
+  // the "singleton" and "scoped" instances created by this container.
+  private instances = new Map<InjectionToken, any>();
+
   /**
-   * We use "parameters decorators" before the name of the parameter
-   * in the function, and it's possible to have different decorators
-   * on different parameters in the same function.
+   * The tokens we're in the middle of creating (and their lifetimes),
+   * it's "static" because a factory can call "resolve" again on any
+   * container (JS runs one thing at a time, so there's only one
+   * resolution going on).
    */
-  getPriceWithtax(@LogParameter tax: number) {
-    return this._price * (1 + tax);
+  private static resolving: { token: InjectionToken; lifetime: Lifetime }[] =
+    [];
+
+  constructor(private parent?: Container) {}
+
+  register<T>(token: InjectionToken<T>, provider: Provider<T>) {
+    this.providers.set(token, provider);
+    this.instances.delete(token);
+    return this;
+  }
+
+  /**
+   * A child container sees all the providers of its parents, but it
+   * can override them and it keeps its own "scoped" instances.
+   */
+  createChild() {
+    return new Container(this);
+  }
+
+  /**
+   * If we're asked for a token we're still creating, then A needs B
+   * that needs A... and we would never finish, so we stop with an
+   * error that shows the whole chain.
+   *
+   * A "scoped" instance can't be used to create a singleton either
+   * (even through transient ones in between), the singleton would
+   * keep the instance of the first scope that asked for it forever.
+   */
+  resolve<T>(token: InjectionToken<T>): T {
+    const path = Container.resolving;
+    const tokens = path.map((item) => item.token);
+
+    if (tokens.indexOf(token) !== -1) {
+      const chain = [...tokens, token].map(tokenName).join(" -> ");
+      throw new Error(`Circular dependency found: ${chain}`);
+    }
+
+    const { provider, owner } = this.findProvider(token);
+    const lifetime = provider.lifetime ?? "transient";
+    const singleton = path.find((item) => item.lifetime === "singleton");
+
+    if (lifetime === "scoped" && singleton) {
+      throw new Error(
+        `"${tokenName(token)}" is scoped, it can't be injected into the ` +
+          `singleton "${tokenName(singleton.token)}".`
+      );
+    }
+
+    /**
+     * Singletons live in the container that has the provider, scoped
+     * instances in the container we were asked from.
+     */
+    const cache =
+      lifetime === "singleton"
+        ? owner.instances
+        : lifetime === "scoped"
+        ? this.instances
+        : undefined;
+
+    if (cache?.has(token)) {
+      return cache.get(token);
+    }
+
+    path.push({ token, lifetime });
+
+    /**
+     * A singleton is shared with the whole tree, so its dependencies
+     * must come from the container that has its provider, not from
+     * the child we were asked from (it could override them).
+     */
+    const creator = lifetime === "singleton" ? owner : this;
+
+    try {
+      const instance = creator.createInstance(provider);
+      cache?.set(token, instance);
+      return instance;
+    } finally {
+      path.pop();
+    }
+  }
+
+  private findProvider(token: InjectionToken): {
+    provider: Provider;
+    owner: Container;
+  } {
+    let container: Container | undefined = this;
+    let root: Container = this;
+
+    while (container) {
+      const provider = container.providers.get(token);
+
+      if (provider) {
+        return { provider, owner: container };
+      }
+
+      root = container;
+      container = container.parent;
+    }
+
+    // an "@Injectable" class works as if it was registered in the root.
+    const lifetime: Lifetime | undefined =
+      typeof token === "function"
+        ? getOwnMetadata("di:injectable", token)
+        : undefined;
+
+    if (typeof token === "function" && lifetime) {
+      return { provider: { useClass: token, lifetime }, owner: root };
+    }
+
+    throw new Error(`No provider found for "${tokenName(token)}".`);
+  }
+
+  private createInstance(provider: Provider) {
+    if (provider.useFactory) {
+      return provider.useFactory(this);
+    }
+
+    if (provider.useClass) {
+      const args = [];
+
+      /**
+       * "length" doesn't count the params with a default value (nor
+       * the ones after them), so we also look at the last param that
+       * has a token.
+       */
+      const positions = getOwnParameterPositions(
+        "di:inject",
+        provider.useClass
+      );
+      const paramCount = Math.max(
+        provider.useClass.length,
+        positions.length ? positions[positions.length - 1] + 1 : 0
+      );
+
+      for (let i = 0; i < paramCount; i++) {
+        const paramToken: InjectionToken | undefined = getOwnMetadata(
+          "di:inject",
+          provider.useClass,
+          undefined,
+          i
+        );
+
+        if (!paramToken) {
+          throw new Error(
+            `Missing @Inject for param ${i} of "${provider.useClass.name}".`
+          );
+        }
+
+        args.push(this.resolve(paramToken));
+      }
+
+      return new provider.useClass(...args);
+    }
+
+    return provider.useValue;
+  }
+}
+
+/**
+ * Instead of a static "getInstance()" in the class itself (like
+ * "SalesDepartment" in the classes file), the class only says it's a
+ * singleton and the container makes sure there's only one of it.
+ */
+@Injectable({ lifetime: "singleton" })
+class ReportArchive {
+  reports: string[] = [];
+}
+
+@Injectable({ lifetime: "scoped" })
+class ReportDraft {
+  lines: string[] = [];
+}
+
+// the same as "@Inject" on each param, in the order of the params.
+@Injectable({ inject: [ReportArchive, ReportDraft, "salesRegion"] })
+class ReportService {
+  constructor(
+    private archive: ReportArchive,
+    private draft: ReportDraft,
+    private region: string
+  ) {}
+
+  write(line: string) {
+    this.draft.lines.push(`[${this.region}] ${line}`);
+  }
+
+  publish() {
+    this.archive.reports.push(this.draft.lines.join("\n"));
+    this.draft.lines = [];
+  }
+}
+
+const appContainer = new Container();
+appContainer.register("salesRegion", { useValue: "BR" });
+
+// each child container is a "scope" with its own ReportDraft.
+const morningScope = appContainer.createChild();
+const eveningScope = appContainer.createChild();
+eveningScope.register("salesRegion", { useValue: "PT" });
+
+morningScope.resolve(ReportService).write("Big sale today!");
+morningScope.resolve(ReportService).publish();
+eveningScope.resolve(ReportService).write("Sales increased 5%");
+eveningScope.resolve(ReportService).publish();
+
+// both services shared the same archive: ["[BR] Big sale...", "[PT] ..."]
+console.log(appContainer.resolve(ReportArchive).reports);
+
+// a singleton can't keep the draft of the first scope that asks for it.
+@Injectable({ lifetime: "singleton", inject: [ReportDraft] })
+class DraftArchive {
+  constructor(public draft: ReportDraft) {}
+}
+
+try {
+  morningScope.resolve(DraftArchive);
+} catch (error) {
+  // "ReportDraft" is scoped, it can't be injected into the singleton...
+  console.log(error);
+}
+
+// A needs B that needs A ("@Inject" examples are in another file).
+@Injectable({ inject: ["egg"] })
+class ChickenService {
+  constructor(public egg: unknown) {}
+}
+
+appContainer.register("egg", {
+  useFactory: (container) => ({ chicken: container.resolve(ChickenService) }),
+});
+
+try {
+  appContainer.resolve(ChickenService);
+} catch (error) {
+  // Circular dependency found: ChickenService -> egg -> ChickenService
+  console.log(error);
+}
+
+// ============ Method Interception Decorators Example =============
+
+/**
+ * All the decorators bellow replace a method with a wrapper around
+ * it, so they share this helper.
+ *
+ * If "@AutoBind" was applied before (it's written bellow them), the
+ * descriptor won't have a "value" anymore, but a "get" that returns
+ * the bound method, in this case we wrap the getter too and keep
+ * returning a bound function, so they can be used together in any
+ * order.
+ *
+ * The wrappers keep their state (caches, timers...) per instance,
+ * using the "this" they were called with as the key of a WeakMap.
+ */
+function wrapMethod(
+  name: string,
+  descriptor: PropertyDescriptor,
+  wrap: (method: (...args: any[]) => any) => (...args: any[]) => any
+): PropertyDescriptor {
+  if (typeof descriptor.value === "function") {
+    return { ...descriptor, value: wrap(descriptor.value) };
+  }
+
+  const originalGet = descriptor.get;
+
+  if (originalGet) {
+    const wrapped = wrap(function (this: any, ...args: any[]) {
+      return originalGet.call(this).apply(this, args);
+    });
+
+    return {
+      ...descriptor,
+      get() {
+        return wrapped.bind(this);
+      },
+    };
   }
+
+  throw new Error(`"${name}" is not a method, it can't be wrapped.`);
+}
+
+interface MemoizeOptions {
+  // builds the cache key from the args (JSON of the args by default).
+  key?: (...args: any[]) => string;
+
+  // how long (in ms) a value stays in the cache, forever by default.
+  ttl?: number;
+}
+
+/**
+ * Caches the returned value by the args, so calling it again with the
+ * same args doesn't run the method again. If the method returns a
+ * promise that fails, we remove it from the cache so the next call
+ * can try again.
+ */
+function Memoize(options: MemoizeOptions = {}) {
+  return function (
+    target: any,
+    context: MethodNameOrContext,
+    descriptor?: PropertyDescriptor
+  ) {
+    const caches = new WeakMap<
+      object,
+      Map<string, { value: any; expiresAt: number }>
+    >();
+
+    return replaceMember(target, context, descriptor, (methodDesc, name) =>
+      wrapMethod(name, methodDesc, (method) => {
+        return function (this: any, ...args: any[]) {
+          const cache = caches.get(this) ?? new Map();
+          caches.set(this, cache);
+
+          const key = options.key
+            ? options.key(...args)
+            : JSON.stringify(args);
+          const cached = cache.get(key);
+
+          if (cached && cached.expiresAt > Date.now()) {
+            return cached.value;
+          }
+
+          const value = method.apply(this, args);
+          cache.set(key, {
+            value,
+            expiresAt: options.ttl ? Date.now() + options.ttl : Infinity,
+          });
+
+          if (value instanceof Promise) {
+            value.catch(() => cache.delete(key));
+          }
+
+          return value;
+        };
+      })
+    );
+  };
+}
+
+/**
+ * Only runs the method after it stopped being called for "ms"
+ * milliseconds, with the args of the last call (e.g. a search that
+ * runs when the user stops typing).
+ */
+function Debounce(ms: number) {
+  return function (
+    target: any,
+    context: MethodNameOrContext,
+    descriptor?: PropertyDescriptor
+  ) {
+    const timers = new WeakMap<object, ReturnType<typeof setTimeout>>();
+
+    return replaceMember(target, context, descriptor, (methodDesc, name) =>
+      wrapMethod(name, methodDesc, (method) => {
+        return function (this: any, ...args: any[]) {
+          clearTimeout(timers.get(this));
+          timers.set(this, setTimeout(() => method.apply(this, args), ms));
+        };
+      })
+    );
+  };
 }
 
 /**
- * The decorators won't execute again just because we instanciated the
- * class, they only execute once when the class is defined.
+ * Runs the method at most once every "ms" milliseconds, the first
+ * call runs right away and if there were more calls in the meantime,
+ * the last one runs when the time is over (e.g. a scroll handler).
  */
-const videoGame = new Product("PS5", 3500);
-console.log(videoGame);
+function Throttle(ms: number) {
+  return function (
+    target: any,
+    context: MethodNameOrContext,
+    descriptor?: PropertyDescriptor
+  ) {
+    const states = new WeakMap<
+      object,
+      { timer?: ReturnType<typeof setTimeout>; lastArgs?: any[] }
+    >();
 
-const laptop = new Product("Alienware", 13300);
-console.log(laptop);
+    return replaceMember(target, context, descriptor, (methodDesc, name) =>
+      wrapMethod(name, methodDesc, (method) => {
+        return function throttled(this: any, ...args: any[]) {
+          const state = states.get(this) ?? {};
+          states.set(this, state);
 
-// ============== Auto Bind Method Decorator Example ===============
+          if (state.timer) {
+            state.lastArgs = args;
+            return;
+          }
+
+          method.apply(this, args);
+
+          state.timer = setTimeout(() => {
+            const lastArgs = state.lastArgs;
+            state.timer = undefined;
+            state.lastArgs = undefined;
+
+            if (lastArgs) {
+              throttled.apply(this, lastArgs);
+            }
+          }, ms);
+        };
+      })
+    );
+  };
+}
+
+interface RetryOptions {
+  // how many times we try, counting the first call.
+  attempts: number;
 
-function AutoBind(_: any, _2: string, descriptor: PropertyDescriptor) {
   /**
-   * The "property descriptor" is an object with a property "value"
-   * that holds the name of the method in this case, to see more
-   * info about this object check out the documentation:
-   * https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Object/getOwnPropertyDescriptor
+   * How long (in ms) to wait before trying again, it can be a function
+   * of the attempt that failed (1, 2, ...) to wait more each time.
    */
-  const originalMethod = descriptor.value;
+  backoff?: number | ((attempt: number) => number);
+}
 
-  // Here we're creating our custom "property descriptor" object.
-  const adjustedDescriptor: PropertyDescriptor = {
-    configurable: true,
-    enumerable: false,
+/**
+ * For async methods, if the returned promise fails we call the method
+ * again (with the same "this" and args) until it works or we run out
+ * of attempts, then the last error is thrown.
+ */
+function Retry(options: RetryOptions) {
+  return function (
+    target: any,
+    context: MethodNameOrContext,
+    descriptor?: PropertyDescriptor
+  ) {
+    return replaceMember(target, context, descriptor, (methodDesc, name) =>
+      wrapMethod(name, methodDesc, (method) => {
+        return async function (this: any, ...args: any[]) {
+          for (let attempt = 1; ; attempt++) {
+            try {
+              return await method.apply(this, args);
+            } catch (error) {
+              if (attempt >= options.attempts) {
+                throw error;
+              }
 
-    /**
-     * This "get" method works like a "value" property that runs
-     * extra logic before the value is returned.
-     */
-    get() {
-      /**
-       * "this" will refer to whatever triggers this method, in
-       * this it'll be the object in which we originally defined
-       * the method.
-       */
-      const boundFunc = originalMethod.bind(this);
-      return boundFunc;
-    },
-  };
+              const delay =
+                typeof options.backoff === "function"
+                  ? options.backoff(attempt)
+                  : options.backoff ?? 0;
 
-  // this will overwrite the original descriptor
-  return adjustedDescriptor;
+              await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+          }
+        };
+      })
+    );
+  };
 }
 
-// dummy class
-class Printer {
-  message = "This works!";
+class MessagePrinter {
+  message = "This works too!";
 
-  // using our newly created decorator
+  /**
+   * Here "@AutoBind" runs first (bottom to top), then "@Debounce" wraps
+   * the bound method, so we can pass it to "addEventListener" and
+   * "this" is still the printer.
+   */
+  @Debounce(300)
   @AutoBind
   showMessage() {
     console.log(this.message);
   }
+
+  // and the other way around works as well.
+  @AutoBind
+  @Throttle(1000)
+  logClick(event: Event) {
+    console.log(`${this.message} (${event.type})`);
+  }
 }
 
-const p = new Printer();
-const btn = document.querySelector("button")!;
+const messagePrinter = new MessagePrinter();
+
+// clicking many times in a row only logs once.
+btn.addEventListener("click", messagePrinter.showMessage);
+btn.addEventListener("click", messagePrinter.logClick);
+
+class PriceCalculator {
+  calculations = 0;
+
+  // the tax rate can change, so results are only cached for a minute.
+  @Memoize({
+    key: (price: number, tax: number) => `${price}:${tax}`,
+    ttl: 60000,
+  })
+  withTax(price: number, tax: number) {
+    this.calculations++;
+    return price * (1 + tax);
+  }
+}
+
+const calculator = new PriceCalculator();
+calculator.withTax(3500, 0.1);
+calculator.withTax(3500, 0.1);
+console.log(calculator.calculations); // 1
+
+class CourseApi {
+  private calls = 0;
+
+  // waits 100ms, then 200ms between the attempts.
+  @Retry({ attempts: 3, backoff: (attempt) => attempt * 100 })
+  async fetchCourses() {
+    this.calls++;
+
+    // pretending the first 2 requests fail.
+    if (this.calls < 3) {
+      throw new Error("Network error!");
+    }
+
+    return courseTitles;
+  }
+}
+
+new CourseApi().fetchCourses().then((titles) => console.log(titles));
+
+// ============ Observing Property Changes Example ==============
+
+interface PropertyChange {
+  target: object;
+  property: string;
+  oldValue: any;
+  newValue: any;
+}
+
+type PropertyChangeListener = (change: PropertyChange) => void;
+
+// the listeners added with "observe", per instance.
+const changeListeners = new WeakMap<object, PropertyChangeListener[]>();
+
 /**
- * Here we had to use the ".bind()" method to change the "scope"
- * of the "this" keyword to be the "p" object and not the "target"
- * (button element) attached to the "addEventListener" function.
+ * Finds the "@Watch" methods of a property in the class and its
+ * parents, each "@Watch" method stores the properties it watches.
  */
-// btn.addEventListener("click", p.showMessage.bind(p));
+function getWatchers(targetClass: Function, propName: string) {
+  return getDecoratedMembers(targetClass)
+    .filter((member) => {
+      const watched: string[] | undefined = getMetadata(
+        "observe:watch",
+        targetClass.prototype,
+        member.name
+      );
+
+      return !member.isStatic && !!watched && watched.indexOf(propName) !== -1;
+    })
+    .map((member) => member.name);
+}
+
+function emitPropertyChange(
+  target: any,
+  property: string,
+  oldValue: any,
+  newValue: any
+) {
+  // setting the same value again isn't a change.
+  if (Object.is(oldValue, newValue)) {
+    return;
+  }
+
+  const change: PropertyChange = { target, property, oldValue, newValue };
+
+  for (const listener of changeListeners.get(target) ?? []) {
+    listener(change);
+  }
+
+  for (const methodName of getWatchers(target.constructor, property)) {
+    target[methodName](newValue, oldValue);
+  }
+}
 
 /**
- * With our "AutoBind" method decorator we don't need to bind
- * the "this" keyword manually like on the example right above
- * anymore and it could be reusable!
+ * Calls "listener" every time an "@Observable" property of the object
+ * changes (only "property" if we pass it), it returns a function that
+ * stops observing.
  */
-btn.addEventListener("click", p.showMessage);
-
-// now it binds "this" correctly no matter where we call it.
-p.showMessage();
+function observe(
+  target: object,
+  listener: PropertyChangeListener,
+  property?: string
+) {
+  const filtered: PropertyChangeListener = (change) => {
+    if (!property || change.property === property) {
+      listener(change);
+    }
+  };
 
-// ============= Validation With Decorators Example ==============
+  changeListeners.set(target, [
+    ...(changeListeners.get(target) ?? []),
+    filtered,
+  ]);
 
-// a storage to work with
-interface ValidatorConfig {
-  [property: string]: {
-    [validatableProp: string]: string[]; // ['required', 'positive']
+  return () => {
+    changeListeners.set(
+      target,
+      (changeListeners.get(target) ?? []).filter((item) => item !== filtered)
+    );
   };
 }
 
 /**
- * When the app starts no validators have been registered yet,
- * that's why the empty object.
+ * Turns a regular property of an instance into a getter and a setter
+ * right on the instance, keeping the value in a closure. Since the new
+ * property is enumerable, the object still looks the same for
+ * "Object.keys" and "toJSON".
+ *
+ * The property only gets its first value here, it's not a change, and
+ * while it's still "undefined" setting it isn't a change either (a
+ * property without an initializer only gets its value in the
+ * constructor).
  */
-const registeredValidators: ValidatorConfig = {};
+function defineObservableField(
+  instance: any,
+  propName: string,
+  initialValue: any
+) {
+  let currentValue = initialValue;
+  let initialized = initialValue !== undefined;
+
+  Object.defineProperty(instance, propName, {
+    configurable: true,
+    enumerable: true,
+    get() {
+      return currentValue;
+    },
+    set(value: any) {
+      const oldValue = currentValue;
+      currentValue = value;
+
+      if (initialized) {
+        emitPropertyChange(instance, propName, oldValue, value);
+      }
+
+      initialized = initialized || value !== undefined;
+    },
+  });
+}
+
+// the closest getter of the property in the prototype chain.
+function findGetter(instance: object, name: string) {
+  let current: object | null = Object.getPrototypeOf(instance);
+
+  while (current) {
+    const getter = Object.getOwnPropertyDescriptor(current, name)?.get;
+
+    if (getter) {
+      return getter;
+    }
+
+    current = Object.getPrototypeOf(current);
+  }
+}
 
 /**
- * The 2 "property decorators" bellow will be used to add something
- * to the registeredValidators.
+ * "@Observable" works on accessors and on regular properties.
  *
- * Remember that a "property decorator" receive 2 arguments (target
- * and name).
+ * On an accessor we receive its descriptor, so we just wrap the
+ * setter. The old value comes from the getter, which can also be in a
+ * parent class (and the standard decorators of a setter don't receive
+ * the getter at all), without any getter it's the last value we set.
+ *
+ * A regular property has no descriptor, the value lives in each
+ * instance, so we turn it into a getter and a setter on the instance
+ * (see "defineObservableField" above), the only difference between the
+ * modes is when we can do it:
+ *  - legacy decorators put a setter on the prototype that catches the
+ *    first assignment (the field initializer or the constructor).
+ *  - standard decorators can't do that trick (fields are defined on
+ *    the instance, so the setter on the prototype would never run),
+ *    but they can add an initializer that runs right after the field
+ *    got its initial value.
+ *
+ * Standard decorators also have "accessor" fields, which are a getter
+ * and a setter around a private field, e.g. "@Observable accessor tax".
  */
-function Required(target: any, propName: string) {
-  /**
-   * The prototype of the instance we're working with will have a
-   * constructor key which points at the constructor function that
-   * was used to create our object and since any function in JS has
-   * a name property, basically we registered the class name as a key.
-   */
-  registeredValidators[target.constructor.name] = {
-    ...registeredValidators[target.constructor.name],
-    [propName]: [
-      ...(registeredValidators[target.constructor.name]?.[propName] ?? []),
-      "required",
-    ],
-  };
+function Observable(
+  target: any,
+  propName: FieldNameOrContext | ClassSetterDecoratorContext,
+  descriptor?: PropertyDescriptor
+): any {
+  // "fromJSON" needs to know if it's a field or an accessor.
+  const kind =
+    (isDecoratorContext(propName) && propName.kind !== "field") || descriptor
+      ? "accessor"
+      : "field";
+
+  onMemberDefined(target, propName, (owner, name) => {
+    defineMetadata("observe:observable", kind, owner, name);
+  });
+
+  if (isDecoratorContext(propName) && propName.kind === "field") {
+    const name = String(propName.name);
+
+    propName.addInitializer(function (this: any) {
+      defineObservableField(this, name, this[name]);
+    });
+    return;
+  }
+
+  if (descriptor || isDecoratorContext(propName)) {
+    return replaceMember(target, propName, descriptor, (accessor, name) => {
+      const { get, set } = accessor;
+      const lastValues = new WeakMap<object, any>();
+
+      if (!set) {
+        throw new Error(`"${name}" has no setter, it can't be observed.`);
+      }
+
+      return {
+        ...accessor,
+        set(this: any, value: any) {
+          const getter = get ?? findGetter(this, name);
+          const oldValue = getter ? getter.call(this) : lastValues.get(this);
+          set.call(this, value);
+
+          const newValue = getter ? getter.call(this) : value;
+          lastValues.set(this, newValue);
+          emitPropertyChange(this, name, oldValue, newValue);
+        },
+      };
+    });
+  }
+
+  Object.defineProperty(target, propName, {
+    configurable: true,
+    get() {
+      return undefined;
+    },
+    set(this: any, initialValue: any) {
+      defineObservableField(this, propName, initialValue);
+    },
+  });
 }
 
-// another prop decorator
-function PositiveNumber(target: any, propName: string) {
-  registeredValidators[target.constructor.name] = {
-    ...registeredValidators[target.constructor.name],
-    [propName]: [
-      ...(registeredValidators[target.constructor.name]?.[propName] ?? []),
-      "positive",
-    ],
+/**
+ * A method decorator factory, the method is called with the new and
+ * the old value every time the "@Observable" property changes.
+ */
+function Watch(propName: string) {
+  return function (target: any, methodName: MethodNameOrContext) {
+    onMemberDefined(target, methodName, (owner, name) => {
+      const watched = getOwnMetadata("observe:watch", owner, name) ?? [];
+      defineMetadata("observe:watch", [...watched, propName], owner, name);
+    });
   };
 }
 
 /**
- * This function should go through all registered validators and
- * run different logic based on which validator it finds.
+ * "Product" (from the "Using Decorators" section) only has a setter
+ * for the price, here we make it observable in a subclass and keep
+ * the price with tax up to date whenever the price changes.
  */
-function validate(obj: any) {
-  const objValidatorConfig = registeredValidators[obj.constructor.name];
+class TaxedProduct extends Product {
+  taxedPrice: number;
 
-  if (!objValidatorConfig) {
-    /**
-     * If there's nothing to validate then it's certainly already
-     * valid.
-     */
-    return true;
+  @Observable
+  tax: number;
+
+  constructor(t: string, p: number, tax: number) {
+    super(t, p);
+    this.tax = tax;
+    this.taxedPrice = this.getPriceWithtax(tax);
   }
 
-  /**
-   * The loop bellow give us access to all the properties names
-   * which might have validators.
-   */
-  let isValid = true; // flag
-  for (const prop in objValidatorConfig) {
-    /**
-     * Since we get an array, we loop over it to get validators values
-     * like "required" or "positive" and store it in the "validator"
-     * variable.
-     */
-    for (const validator of objValidatorConfig[prop]) {
-      switch (validator) {
-        case "required":
-          /**
-           * Check if the title exists.
-           *
-           * Here we used "!!" (bang operator) to convert the value
-           * to a boolean, because we want to return "true" if the
-           * object has a non empty value.
-           */
-          isValid = isValid && !!obj[prop];
-          break;
-        case "positive":
-          // Check if the price is a negative value.
-          isValid = isValid && obj[prop] > 0;
-          break;
-      }
+  @Observable
+  set price(val: number) {
+    super.price = val;
+  }
+
+  // "Product" has no getter, "@Observable" reads the old price here.
+  get price() {
+    return this.getPriceWithtax(0);
+  }
+
+  @Watch("price")
+  @Watch("tax")
+  updateTaxedPrice() {
+    this.taxedPrice = this.getPriceWithtax(this.tax);
+  }
+}
+
+const taxedLaptop = new TaxedProduct("Alienware", 10000, 0.1);
+
+const stopObserving = observe(taxedLaptop, (change) =>
+  console.log(`${change.property}: ${change.oldValue} -> ${change.newValue}`)
+);
+
+taxedLaptop.price = 12000; // price: 10000 -> 12000
+taxedLaptop.tax = 0.2; // tax: 0.1 -> 0.2
+console.log(taxedLaptop.taxedPrice); // 14400
+stopObserving();
+
+// ============ Web Components With Decorators Example =============
+/**
+ * "WithTemplate" needs an element with an id in the HTML to render
+ * into, with "@Component" the class becomes a custom element instead
+ * (a Web Component), so we can use it as a tag anywhere in the HTML,
+ * e.g. "<user-card name='Maria'></user-card>".
+ *
+ * The class must extend "HTMLElement" (the browser creates the
+ * instances when it finds the tag) and the template is rendered in
+ * its shadow DOM, so the "styles" only apply inside of it.
+ */
+interface ComponentOptions {
+  // custom elements must have a "-" in the tag name.
+  tag: string;
+  template: string;
+  styles?: string | string[];
+}
+
+/**
+ * The lifecycle hooks a component can have, they run after the
+ * decorator did its part in the custom element callbacks
+ * ("connectedCallback"...), so the template is already rendered in
+ * "onConnected" and the props are already updated in
+ * "onAttributeChanged". The callbacks the class itself defines still
+ * run too, right before the hooks.
+ */
+interface ComponentHooks {
+  onConnected?(): void;
+  onDisconnected?(): void;
+  onAttributeChanged?(
+    name: string,
+    oldValue: string | null,
+    newValue: string | null
+  ): void;
+}
+
+// the custom element callbacks the decorated class may already have.
+interface CustomElementCallbacks {
+  connectedCallback?(): void;
+  disconnectedCallback?(): void;
+  attributeChangedCallback?(
+    name: string,
+    oldValue: string | null,
+    newValue: string | null
+  ): void;
+}
+
+/**
+ * Attributes are always strings, "type" converts them to the type of
+ * the prop ("String" by default) and "attribute" is the name of the
+ * attribute ("firstName" -> "first-name" by default).
+ */
+interface PropOptions {
+  attribute?: string;
+  type?: FieldConstructor;
+}
+
+interface ComponentProp {
+  name: string;
+  type: FieldConstructor;
+}
+
+const COMPONENT_PROP = "component:prop";
+
+/**
+ * A prop is an "@Observable" property (so the component renders again
+ * when it changes) that also receives the value of an attribute. The
+ * other way around doesn't happen, setting the prop doesn't change
+ * the attribute.
+ */
+function Prop(options: PropOptions = {}) {
+  return function (
+    target: any,
+    propName: FieldNameOrContext | ClassSetterDecoratorContext,
+    descriptor?: PropertyDescriptor
+  ): any {
+    onMemberDefined(target, propName, (owner, name) => {
+      const attribute =
+        options.attribute ??
+        name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+      const type = options.type ?? String;
+
+      defineMetadata(COMPONENT_PROP, { attribute, type }, owner, name);
+    });
+
+    return Observable(target, propName, descriptor);
+  };
+}
+
+// attribute name -> prop, for the class and its parents.
+function getComponentProps(targetClass: Function) {
+  const props: { [attribute: string]: ComponentProp } = {};
+
+  for (const member of getDecoratedMembers(targetClass)) {
+    const config = getMetadata(
+      COMPONENT_PROP,
+      targetClass.prototype,
+      member.name
+    );
+
+    if (!member.isStatic && config) {
+      const name = String(member.name);
+      props[config.attribute] = { name, type: config.type };
     }
   }
-  // now we return something in all circumstances.
-  return isValid;
+
+  return props;
 }
 
-class Course {
-  /**
-   * We registered these props and their validators in our global
-   * ValidatorConfig when the class is defined.
-   */
-  @Required
-  title: string;
+// "null" means the attribute was removed.
+function coerceAttributeValue(value: string | null, type: FieldConstructor) {
+  if (type === Boolean) {
+    return value !== null && value !== "false";
+  }
 
-  @PositiveNumber
-  price: number;
+  if (value === null) {
+    return undefined;
+  }
 
-  constructor(t: string, p: number) {
-    this.title = t;
-    this.price = p;
+  if (type === Number) {
+    return Number(value);
   }
+
+  return type === Date ? new Date(value) : value;
 }
 
-const courseForm = document.querySelector("form")!;
-courseForm.addEventListener("submit", (event) => {
-  event.preventDefault();
+function Component(options: ComponentOptions) {
+  if (options.tag.indexOf("-") === -1) {
+    throw new Error(
+      `"${options.tag}" is not a valid tag, it must have a "-" in it.`
+    );
+  }
 
-  const titleEl = document.getElementById("courseTitle") as HTMLInputElement;
-  const priceEl = document.getElementById("price") as HTMLInputElement;
+  const styles = ([] as string[]).concat(options.styles ?? []);
+  const template =
+    styles.map((css) => `<style>${css}</style>`).join("") + options.template;
 
-  const title = titleEl.value;
+  return function <
+    T extends new (...args: any[]) => HTMLElement & CustomElementCallbacks
+  >(originalConstructor: T, context?: ClassDecoratorContext) {
+    const componentClass = class extends originalConstructor {
+      // the browser only calls "attributeChangedCallback" for these.
+      static get observedAttributes() {
+        return Object.keys(getComponentProps(componentClass));
+      }
 
-  /**
-   * We added the "+" sign to convert the returned input value
-   * to a number (values from inputs are string by default).
-   */
-  const price = +priceEl.value;
+      private stopRendering?: () => void;
 
-  const createdCourse = new Course(title, price);
+      constructor(...args: any[]) {
+        super(...args);
+        this.attachShadow({ mode: "open" });
+      }
 
-  /**
-   * Here we're using the "validate" function from our "Required"
-   * decorator.
-   */
-  if (!validate(createdCourse)) {
-    alert("Invalid input, please try again!");
-    return;
+      connectedCallback() {
+        const render = () => renderTemplate(template, this.shadowRoot!, this);
+        this.stopRendering = observe(this, batchRenders(render));
+        render();
+
+        super.connectedCallback?.();
+        (this as ComponentHooks).onConnected?.();
+      }
+
+      disconnectedCallback() {
+        this.stopRendering?.();
+        super.disconnectedCallback?.();
+        (this as ComponentHooks).onDisconnected?.();
+      }
+
+      attributeChangedCallback(
+        name: string,
+        oldValue: string | null,
+        newValue: string | null
+      ) {
+        const prop = getComponentProps(componentClass)[name];
+
+        if (prop) {
+          (this as any)[prop.name] = coerceAttributeValue(newValue, prop.type);
+        }
+
+        super.attributeChangedCallback?.(name, oldValue, newValue);
+        (this as ComponentHooks).onAttributeChanged?.(name, oldValue, newValue);
+      }
+    };
+
+    defineMetadata("component", { ...options, template }, componentClass);
+
+    /**
+     * The browser reads "observedAttributes" when the element is
+     * defined, so the props must be registered by then, and with
+     * standard decorators that only happens after the class decorators
+     * run (in a class initializer).
+     */
+    const define = () => {
+      if (!customElements.get(options.tag)) {
+        customElements.define(options.tag, componentClass);
+      }
+    };
+
+    if (context) {
+      context.addInitializer(define);
+    } else {
+      define();
+    }
+
+    return componentClass;
+  };
+}
+
+@Component({
+  tag: "user-card",
+  template: `
+    <p>{{name}} ({{age}} years old)</p>
+    {{#if admin}}<strong>Admin</strong>{{/if}}
+    <button @click="celebrateBirthday">Happy birthday!</button>
+  `,
+  styles: "p { font-weight: bold; }",
+})
+class UserCard extends HTMLElement implements ComponentHooks {
+  @Prop()
+  name = "Anonymous";
+
+  @Prop({ type: Number })
+  age = 0;
+
+  @Prop({ type: Boolean })
+  admin = false;
+
+  celebrateBirthday() {
+    this.age++;
   }
 
-  console.log(createdCourse);
-});
+  onConnected() {
+    console.log(`<user-card> of ${this.name} was added to the page.`);
+  }
+}
+
+// the tag in the HTML works too, these are the same.
+const userCard = document.createElement("user-card") as UserCard;
+userCard.setAttribute("name", "João");
+userCard.setAttribute("age", "30");
+document.body.appendChild(userCard);
+
+// ================ Reading The Metadata Example =================
+
+/**
+ * Since all the decorators above store what they know in the same
+ * place, a tool can find out how a class was decorated without
+ * knowing anything about each decorator, e.g. "title" (log:level),
+ * "price" (log:level) and "getPriceWithtax" (log:level).
+ */
+console.log(getDecoratedMembers(Product));
+console.log(getDecoratedMembers(TaxedProduct).map((member) => member.name));
+
+// the rules of "title" in "Bootcamp" and in its parent "Course".
+console.log(getMetadataChain(VALIDATOR_RULES, Bootcamp.prototype, "title"));
+console.log(getMetadata("di:injectable", ReportArchive)); // "singleton"
+console.log(getMetadata("template", Person3)); // { template, hookId: "app" }
@@ -0,0 +1,46 @@
+// ================== Parameter Decorators Example ==================
+/**
+ * The standard decorators (used when "experimentalDecorators" is off)
+ * don't have parameter decorators and TS doesn't even compile a
+ * decorated param without that option, so the examples with
+ * "@LogParameter" and "@Inject" live in this file, which the standard
+ * build leaves out (see the tsconfig.standard.json file).
+ *
+ * The decorators and the classes bellow come from the decorators file,
+ * so its script must be loaded before this one in the index.html file.
+ */
+class TaxLoggingProduct extends Product {
+  /**
+   * We use "parameters decorators" before the name of the parameter
+   * in the function, and it's possible to have different decorators
+   * on different parameters in the same function.
+   */
+  getPriceWithtax(@LogParameter tax: number) {
+    return super.getPriceWithtax(tax);
+  }
+}
+
+const taxLoggingLaptop = new TaxLoggingProduct("Alienware", 13300);
+console.log(taxLoggingLaptop.getPriceWithtax(0.2));
+
+// "getPriceWithtax" (log:level with the param 0).
+console.log(getDecoratedMembers(TaxLoggingProduct));
+
+/**
+ * "@Inject" on each param does the same as the "inject" option of
+ * "@Injectable" (see the "Dependency Injection" section), the default
+ * value is only used when the class is created by hand.
+ */
+@Injectable()
+class ReportPrinter {
+  constructor(
+    @Inject(ReportArchive) private archive: ReportArchive,
+    @Inject("salesRegion") private region = "Unknown"
+  ) {}
+
+  print() {
+    console.log(`[${this.region}]`, this.archive.reports);
+  }
+}
+
+appContainer.resolve(ReportPrinter).print();
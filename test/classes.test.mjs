@@ -0,0 +1,958 @@
+// ======================== Classes Tests ========================
+/**
+ * The classes file runs its examples when it's loaded, so each test
+ * loads it in a new context (a new "window") and creates its own
+ * departments (with ids the examples don't use) to look at.
+ *
+ * Build it before running the tests (see the decorators tests):
+ *   tsc -p tsconfig.json
+ *   node --test test/
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import vm from "node:vm";
+
+const dist = new URL("../dist/", import.meta.url);
+
+/**
+ * The classes use the "Role" enum of the obj-arr-tuple-enum file, but
+ * that file stops at one of its examples (it shows on purpose what TS
+ * complains about) before it declares "Role", so we only take the enum
+ * from it.
+ */
+function readRoleEnum() {
+  const code = readFileSync(new URL("obj-arr-tuple-enum.js", dist), "utf8");
+  const end = "})(Role || (Role = {}));";
+  return code.slice(code.indexOf("var Role;"), code.indexOf(end) + end.length);
+}
+
+/**
+ * What the examples log is kept in "logs" instead of printed, "run"
+ * only takes JSON out of the context (its objects come from another
+ * realm, the assertions would compare the prototypes), "runAsync" is
+ * the same for an expression that returns a promise.
+ */
+function loadClasses() {
+  const logs = [];
+  const record = (...args) => logs.push(args);
+  const context = vm.createContext({
+    console: { log: record, info: record, warn: record, error: record },
+    setTimeout,
+    clearTimeout,
+  });
+
+  vm.runInContext(readRoleEnum(), context, { filename: "roles.js" });
+  vm.runInContext(
+    readFileSync(new URL("classes.js", dist), "utf8"),
+    context,
+    { filename: "classes.js" }
+  );
+
+  const run = (expression) =>
+    JSON.parse(
+      vm.runInContext(`JSON.stringify(${expression}) ?? "null"`, context)
+    );
+
+  const runAsync = async (expression) =>
+    JSON.parse(
+      await vm.runInContext(
+        `(${expression}).then((value) => JSON.stringify(value) ?? "null")`,
+        context
+      )
+    );
+
+  return { context, logs, run, runAsync };
+}
+
+// the message of the error "fn" throws, "null" if it doesn't throw.
+const errorOf = `(fn) => {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}`;
+
+// ==================== Fiscal Periods ========================
+
+test("a 4-4-5 calendar splits the quarters in 4, 4 and 5 weeks", () => {
+  const { run } = loadClasses();
+  const periods = run(`new FiscalCalendar(3, "4-4-5")
+    .getPeriods(2024)
+    .map(({ key, quarter, start, end }) => ({
+      key,
+      quarter,
+      start: start.toDateString(),
+      days: Math.round((end - start) / 86400000),
+    }))`);
+
+  assert.equal(periods.length, 12);
+  assert.deepEqual(periods[0], {
+    key: "FY2024-P01",
+    quarter: 1,
+    start: "Sat Apr 01 2023",
+    days: 28,
+  });
+  assert.deepEqual(
+    periods.slice(0, 6).map(({ days }) => days),
+    [28, 28, 35, 28, 28, 35]
+  );
+  assert.equal(periods[3].quarter, 2);
+
+  // the days left of the year stay in the last period.
+  assert.equal(periods[11].key, "FY2024-P12");
+  assert.equal(
+    periods.reduce((total, { days }) => total + days, 0),
+    366
+  );
+});
+
+test("a calendar finds the fiscal year of a date", () => {
+  const { run } = loadClasses();
+  const keys = run(`[
+    new FiscalCalendar(3).getPeriod(new Date(2023, 3, 1)).key,
+    new FiscalCalendar(3).getPeriod(new Date(2024, 2, 31)).key,
+    FiscalCalendar.standard.getPeriod(new Date(2023, 11, 31)).key,
+  ]`);
+
+  assert.deepEqual(keys, ["FY2024-P01", "FY2024-P12", "FY2023-P12"]);
+  assert.match(
+    run(`(${errorOf})(() => new FiscalCalendar(12))`),
+    /from 0 to 11/
+  );
+});
+
+test("a closed period keeps the summary it had when it was closed", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-close", []);
+    const ana = Department.createEmployee("Ana", {
+      startDate: new Date(2020, 0, 10),
+    });
+    const bia = Department.createEmployee("Bia", {
+      startDate: new Date(2020, 1, 10),
+    });
+    dpt.addEmployee(ana);
+    dpt.addEmployee(bia);
+
+    const key = dpt.closePeriod(new Date(2020, 1, 15));
+    dpt.removeEmployee(ana.id);
+    const summaries = dpt.getPeriodSummaries(2020);
+    const closed = summaries.find((summary) => summary.period.key === key);
+
+    return {
+      key,
+      closed: dpt.isPeriodClosed(new Date(2020, 1, 1)),
+      summary: [closed.closed, closed.headcount, Object.isFrozen(closed)],
+      nextHeadcount: summaries[2].headcount,
+      calendar: (${errorOf})(() => {
+        dpt.fiscalCalendar = new FiscalCalendar(3);
+      }),
+    };
+  })()`);
+
+  assert.deepEqual(result.summary, [true, 2, true]);
+  assert.equal(result.key, "FY2020-P02");
+  assert.equal(result.closed, true);
+  assert.equal(result.nextHeadcount, 1);
+  assert.match(result.calendar, /has closed periods/);
+});
+
+test("employees can't start in a closed period", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-start", []);
+    dpt.closePeriod(new Date(2020, 2, 1));
+
+    const create = (name, startDate) =>
+      Department.createEmployee(name, { startDate });
+
+    return {
+      closed: (${errorOf})(() =>
+        dpt.addEmployee(create("Caio", new Date(2020, 2, 20)))
+      ),
+      open: dpt.addEmployee(create("Davi", new Date(2020, 3, 1))).accepted,
+      names: dpt.getEmployees().map((employee) => employee.name),
+    };
+  })()`);
+
+  assert.match(result.closed, /FY2020-P03 .* is closed, can't add "Caio"/);
+  assert.equal(result.open, true);
+  assert.deepEqual(result.names, ["Davi"]);
+});
+
+// ====================== Employee Records ======================
+
+test("a department can't have the same employee twice", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-records", []);
+    const ana = Department.createEmployee("Ana");
+    dpt.addEmployee(ana);
+
+    // another employee with the same name is fine.
+    dpt.addEmployee("Ana");
+
+    return {
+      twice: (${errorOf})(() => dpt.addEmployee(ana)),
+      byName: dpt.findEmployeesByName("Ana").length,
+      byId: dpt.findEmployeeById(ana.id) === ana,
+      missing: dpt.findEmployeeById("nobody") ?? null,
+    };
+  })()`);
+
+  assert.match(result.twice, /"Ana" already works in the department/);
+  assert.equal(result.byName, 2);
+  assert.equal(result.byId, true);
+  assert.equal(result.missing, null);
+});
+
+test("an employee can work in many departments", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const it = new ITDepartment("t-it", []);
+    const support = new ITDepartment("t-support", []);
+    const lab = new ITDepartment("t-lab", []);
+    const ana = Department.createEmployee("Ana", { privileges: ["read"] });
+
+    it.addEmployee(ana);
+    support.addEmployee(ana);
+    const first = ana.primaryDepartmentId;
+    lab.addEmployee(ana, true);
+    const chosen = ana.primaryDepartmentId;
+
+    // the primary department goes to the next one.
+    const removed = lab.removeEmployee(ana.id) === ana;
+
+    return {
+      first,
+      chosen,
+      removed,
+      departments: ana.departmentIds,
+      primary: ana.primaryDepartmentId,
+      again: lab.removeEmployee(ana.id) ?? null,
+      shared: it.findEmployeeById(ana.id) === support.findEmployeeById(ana.id),
+    };
+  })()`);
+
+  assert.deepEqual(result, {
+    first: "t-it",
+    chosen: "t-lab",
+    removed: true,
+    departments: ["t-it", "t-support"],
+    primary: "t-it",
+    again: null,
+    shared: true,
+  });
+});
+
+test("an employee without departments has no primary one", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-alone", []);
+    const caio = Department.createEmployee("Caio");
+    dpt.addEmployee(caio);
+    dpt.removeEmployee(caio.id);
+
+    return [caio.departmentIds, caio.primaryDepartmentId ?? null];
+  })()`);
+
+  assert.deepEqual(result, [[], null]);
+});
+
+// ====================== Sales Reports ======================
+
+// a sales department with "Rita" (an author) logged in.
+const createSales = (id) => `(() => {
+  setPrincipalProvider(() => ({
+    name: "Rita",
+    role: Role.AUTHOR,
+    privileges: [],
+  }));
+  return SalesDepartment.getInstance("${id}");
+})()`;
+
+test("editing a report keeps all of its versions", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const sales = ${createSales("t-versions")};
+    const { id } = sales.addReport("Q1: 120 units", ["quarterly"]);
+    sales.editReport(id, { body: "Q1: 125 units" });
+    const report = sales.editReport(id, { tags: ["reviewed"] });
+
+    // the copies we get can't change the report.
+    report.body = "Changed";
+    report.tags.push("changed");
+
+    const stored = sales.getReport(id);
+    return {
+      versions: stored.versions.map(({ version, body, tags, editedBy }) => [
+        version,
+        body,
+        tags,
+        editedBy,
+      ]),
+      current: [stored.body, stored.tags, sales.mostRecentReport],
+      frozen: Object.isFrozen(stored.versions[0].tags),
+      missing: (${errorOf})(() => sales.editReport("R99", { body: "" })),
+    };
+  })()`);
+
+  assert.deepEqual(result.versions, [
+    [1, "Q1: 120 units", ["quarterly"], "Rita"],
+    [2, "Q1: 125 units", ["quarterly"], "Rita"],
+    [3, "Q1: 125 units", ["reviewed"], "Rita"],
+  ]);
+  assert.deepEqual(result.current, [
+    "Q1: 125 units",
+    ["reviewed"],
+    "Q1: 125 units",
+  ]);
+  assert.equal(result.frozen, true);
+  assert.match(result.missing, /"R99" not found/);
+});
+
+test("the diff of a report shows the lines and tags that changed", () => {
+  const { run } = loadClasses();
+  const diff = run(`(() => {
+    const sales = ${createSales("t-diff")};
+    const { id } = sales.addReport("Sales: 120\\nBest: PS5", ["draft"]);
+    sales.editReport(id, {
+      body: "Sales: 125\\nBest: PS5\\nReturns: 3",
+      tags: ["final"],
+    });
+    return {
+      report: sales.diffReport(id, 1, 2),
+      invalid: (${errorOf})(() => sales.diffReport(id, 1, 3)),
+    };
+  })()`);
+
+  assert.deepEqual(
+    diff.report.lines.map(({ type, line }) => `${type}: ${line}`),
+    [
+      "removed: Sales: 120",
+      "added: Sales: 125",
+      "unchanged: Best: PS5",
+      "added: Returns: 3",
+    ]
+  );
+  assert.deepEqual(diff.report.addedTags, ["final"]);
+  assert.deepEqual(diff.report.removedTags, ["draft"]);
+  assert.match(diff.invalid, /has only 2 versions/);
+});
+
+test("diffLines keeps the longest sequence of common lines", () => {
+  const { run } = loadClasses();
+  const changes = run(`diffLines("a\\nb\\nc\\nd", "b\\nc\\nx\\nd")`);
+
+  assert.deepEqual(
+    changes.map(({ type, line }) => `${type[0]}${line}`),
+    ["ra", "ub", "uc", "ax", "ud"]
+  );
+  assert.deepEqual(run(`diffLines("", "")`), [
+    { type: "unchanged", line: "" },
+  ]);
+});
+
+test("reports can be searched by text, author, tag and date", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const sales = ${createSales("t-search")};
+    sales.addReport("New clients in the NORTH", ["clients"]);
+    sales.addReport("Returns of the month", ["returns"]);
+    runAs({ name: "Ana", role: Role.AUTHOR, privileges: [] }, () =>
+      sales.addReport("More clients", ["clients"])
+    );
+
+    const bodies = (search) =>
+      sales.searchReports(search).map((report) => report.body);
+    const tomorrow = new Date(Date.now() + 86400000);
+
+    return [
+      bodies({ text: "north" }),
+      bodies({ text: "clients", author: "Ana" }),
+      bodies({ tag: "returns" }),
+      bodies({ from: tomorrow }),
+      bodies({ to: tomorrow }).length,
+    ];
+  })()`);
+
+  assert.deepEqual(result, [
+    ["New clients in the NORTH"],
+    ["More clients"],
+    ["Returns of the month"],
+    [],
+    3,
+  ]);
+});
+
+test('"mostRecentReport" still reads and writes the text', () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const sales = ${createSales("t-recent")};
+    const empty = (${errorOf})(() => sales.mostRecentReport);
+    sales.mostRecentReport = "Written by the setter";
+
+    return {
+      empty,
+      text: sales.mostRecentReport,
+      reports: sales.searchReports({}).length,
+      invalid: (${errorOf})(() => {
+        sales.mostRecentReport = "";
+      }),
+    };
+  })()`);
+
+  assert.deepEqual(result, {
+    empty: "No report found!",
+    text: "Written by the setter",
+    reports: 1,
+    invalid: "Please pass in a report.",
+  });
+});
+
+// ====================== Multiton ======================
+
+test("a multiton creates one instance per key", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const created = [];
+    const regions = new Multiton({
+      create: (key) => {
+        created.push(key);
+        return { key };
+      },
+    });
+
+    const north = regions.get("north");
+    return {
+      same: regions.get("north") === north,
+      created: [regions.get("south").key, created],
+      keys: regions.keys(),
+      has: [regions.has("north"), regions.has("east")],
+    };
+  })()`);
+
+  assert.deepEqual(result, {
+    same: true,
+    created: ["south", ["north", "south"]],
+    keys: ["north", "south"],
+    has: [true, false],
+  });
+});
+
+test("the calls waiting for an async instance get the same one", async () => {
+  const { runAsync } = loadClasses();
+  const result = await runAsync(`(async () => {
+    let calls = 0;
+    const regions = new Multiton({
+      create: (key) => {
+        calls++;
+        return new Promise((resolve) =>
+          setTimeout(() => resolve({ key, calls }), 10)
+        );
+      },
+    });
+
+    const sync = (${errorOf})(() => regions.get("north"));
+    const [first, second] = await Promise.all([
+      regions.getAsync("north"),
+      regions.getAsync("north"),
+    ]);
+
+    return {
+      sync,
+      calls,
+      same: first === second,
+      ready: regions.get("north") === first,
+    };
+  })()`);
+
+  assert.match(result.sync, /created asynchronously, use "getAsync"/);
+  assert.equal(result.calls, 1);
+  assert.equal(result.same, true);
+  assert.equal(result.ready, true);
+});
+
+test("a failed async instance is created again next time", async () => {
+  const { runAsync } = loadClasses();
+  const result = await runAsync(`(async () => {
+    let calls = 0;
+    const regions = new Multiton({
+      create: () =>
+        ++calls === 1
+          ? Promise.reject(new Error("Offline"))
+          : Promise.resolve({ calls }),
+    });
+
+    const error = await regions.getAsync("north").catch((e) => e.message);
+    const instance = await regions.getAsync("north");
+    return [error, instance.calls];
+  })()`);
+
+  assert.deepEqual(result, ["Offline", 2]);
+});
+
+test("a reset disposes the instances, the pending ones too", async () => {
+  const { runAsync } = loadClasses();
+  const result = await runAsync(`(async () => {
+    const disposed = [];
+    const regions = new Multiton({
+      create: (key) =>
+        key === "slow"
+          ? new Promise((resolve) => setTimeout(() => resolve({ key }), 10))
+          : { key },
+      dispose: (instance, key) => disposed.push(key),
+    });
+
+    const north = regions.get("north");
+    const slow = regions.getAsync("slow");
+    regions.reset();
+    const error = await slow.catch((e) => e.message);
+
+    return {
+      error,
+      disposed,
+      keys: regions.keys(),
+      fresh: regions.get("north") !== north,
+      again: regions.dispose("east"),
+    };
+  })()`);
+
+  assert.deepEqual(result, {
+    error: 'The instance "slow" was reset.',
+    disposed: ["north", "slow"],
+    keys: [],
+    fresh: true,
+    again: false,
+  });
+});
+
+test("the sales departments are one per id until they're reset", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const north = SalesDepartment.getInstance("t-north");
+    const same = SalesDepartment.getInstance("t-north") === north;
+    SalesDepartment.resetInstances();
+
+    return {
+      same,
+      reset: SalesDepartment.getInstance("t-north") !== north,
+      id: SalesDepartment.getInstance().departmentId,
+    };
+  })()`);
+
+  assert.deepEqual(result, { same: true, reset: true, id: "789" });
+});
+
+test("a singleton is a multiton with a single instance", async () => {
+  const { runAsync } = loadClasses();
+  const result = await runAsync(`(async () => {
+    let created = 0;
+    const config = new Singleton(() => ({ created: ++created }));
+    const first = config.get();
+    const same = (await config.getAsync()) === first;
+    config.reset();
+
+    return [same, config.get().created];
+  })()`);
+
+  assert.deepEqual(result, [true, 2]);
+});
+
+// ==================== Admission Policies ====================
+
+test("the first policy that rejects an employee gives the reason", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-policies", []);
+    dpt.addAdmissionPolicy(requiredPrivilegesPolicy("read", "write"));
+    dpt.addAdmissionPolicy(maxHeadcountPolicy(1));
+
+    const create = (name, privileges) =>
+      Department.createEmployee(name, { privileges });
+
+    return {
+      policies: dpt.getAdmissionPolicies(),
+      missing: dpt.addEmployee(create("Ana", ["read"])),
+      accepted: dpt.addEmployee(create("Bia", ["read", "write"])).accepted,
+      full: dpt.addEmployee(create("Caio", ["read", "write"])),
+      names: dpt.getEmployees().map((employee) => employee.name),
+    };
+  })()`);
+
+  assert.deepEqual(result.policies, ["requiredPrivileges", "maxHeadcount"]);
+  assert.deepEqual(result.missing, {
+    accepted: false,
+    reason: '"Ana" is missing: write.',
+    policy: "requiredPrivileges",
+  });
+  assert.equal(result.accepted, true);
+  assert.deepEqual(result.full, {
+    accepted: false,
+    reason: 'Department "t-policies" already has 1 employees.',
+    policy: "maxHeadcount",
+  });
+  assert.deepEqual(result.names, ["Bia"]);
+});
+
+test("the blocklist works with names and ids", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-blocklist", []);
+    const caio = Department.createEmployee("Caio");
+    dpt.addAdmissionPolicy(blocklistPolicy(["Zé ninguém", caio.id]));
+
+    return [
+      dpt.addEmployee("Zé ninguém").accepted,
+      dpt.addEmployee(caio).accepted,
+      dpt.addEmployee("Caio").accepted,
+    ];
+  })()`);
+
+  assert.deepEqual(result, [false, false, true]);
+});
+
+test("the policies can change at runtime", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-runtime", []);
+    const onlyAna = {
+      name: "onlyAna",
+      check: (employee) => ({
+        accepted: employee.name === "Ana",
+        reason: "Only Ana.",
+      }),
+    };
+    dpt.addAdmissionPolicy(onlyAna);
+
+    const bia = Department.createEmployee("Bia");
+    const before = dpt.checkAdmission(bia);
+    const checked = dpt.getEmployees().length;
+    const removed = [
+      dpt.removeAdmissionPolicy("onlyAna"),
+      dpt.removeAdmissionPolicy("onlyAna"),
+    ];
+
+    return { before, checked, removed, after: dpt.addEmployee(bia).accepted };
+  })()`);
+
+  assert.deepEqual(result, {
+    // a policy without "policy" in its result gets its name.
+    before: { accepted: false, reason: "Only Ana.", policy: "onlyAna" },
+    checked: 0,
+    removed: [true, false],
+    after: true,
+  });
+});
+
+test("the rejected employees are recorded in the audit log", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const sales = SalesDepartment.getInstance("t-rejected");
+    sales.addEmployee("Zé ninguém");
+
+    const [entry] = departmentAuditLog.query({
+      departmentId: "t-rejected",
+      action: "rejectEmployee",
+    });
+    return {
+      policies: sales.getAdmissionPolicies(),
+      rejected: [entry.after.record.name, entry.after.policy],
+      employees: sales.getEmployees().length,
+    };
+  })()`);
+
+  assert.deepEqual(result, {
+    policies: ["blocklist"],
+    rejected: ["Zé ninguém", "blocklist"],
+    employees: 0,
+  });
+});
+
+// ======================== Audit Log ========================
+
+test("the audit log records who changed what in each department", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    // the examples leave "Clayton" logged in.
+    setPrincipalProvider(() => undefined);
+
+    const admin = { name: "Rita", role: Role.ADMIN, privileges: [] };
+    const sales = SalesDepartment.getInstance("t-audit");
+    sales.addEmployee(Department.createEmployee("João"));
+    runAs(admin, () => {
+      sales.mostRecentReport = "First report";
+    });
+
+    const entries = departmentAuditLog.forDepartment("t-audit");
+    return {
+      actions: entries.map(({ action, actor }) => [action, actor]),
+      addEmployee: entries.find(({ action }) => action === "addEmployee"),
+      reports: departmentAuditLog.query({
+        departmentId: "t-audit",
+        action: "addReport",
+        actor: "Rita",
+      }).length,
+    };
+  })()`);
+
+  assert.deepEqual(result.actions, [
+    ["addAdmissionPolicy", "system"],
+    ["addEmployee", "system"],
+    ["addReport", "Rita"],
+  ]);
+  assert.equal(result.addEmployee.after.name, "João");
+  assert.equal(result.addEmployee.before, undefined);
+
+  // the setter adds the report only once.
+  assert.equal(result.reports, 1);
+});
+
+test("the audit history can't be changed", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const dpt = new ITDepartment("t-frozen", []);
+    const bia = Department.createEmployee("Bia", { privileges: ["read"] });
+    dpt.addEmployee(bia);
+    bia.name = "Changed later";
+    bia.privileges.push("write");
+
+    const [entry] = departmentAuditLog.query({
+      departmentId: "t-frozen",
+      action: "addEmployee",
+    });
+    entry.at.setFullYear(2000);
+    const [again] = departmentAuditLog.query({
+      departmentId: "t-frozen",
+      action: "addEmployee",
+    });
+
+    return {
+      after: [entry.after.name, entry.after.privileges],
+      frozen: [
+        Object.isFrozen(entry),
+        Object.isFrozen(entry.after),
+        Object.isFrozen(entry.after.privileges),
+      ],
+      year: again.at.getFullYear() !== 2000,
+    };
+  })()`);
+
+  assert.deepEqual(result, {
+    after: ["Bia", ["read"]],
+    frozen: [true, true, true],
+    year: true,
+  });
+});
+
+test("the audit log exports one JSON object per line", () => {
+  const { run } = loadClasses();
+  const lines = run(`(() => {
+    const dpt = new ITDepartment("t-lines", []);
+    dpt.addEmployee("Caio");
+    dpt.addEmployee("Davi");
+    return departmentAuditLog.toJSONLines({ departmentId: "t-lines" });
+  })()`).split("\n");
+
+  assert.equal(lines.length, 2);
+  const entries = lines.map((line) => JSON.parse(line));
+  assert.deepEqual(
+    entries.map(({ action, after }) => [action, after.name]),
+    [
+      ["addEmployee", "Caio"],
+      ["addEmployee", "Davi"],
+    ]
+  );
+  assert.ok(entries[0].sequence < entries[1].sequence);
+  assert.ok(!isNaN(Date.parse(entries[0].at)));
+});
+
+// ====================== Access Control ======================
+
+test('"@RequirePrivilege" checks the grants of the department', () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const ana = {
+      name: "Ana",
+      role: Role.READ_ONLY,
+      privileges: [],
+      grants: [{ privilege: "write:report", departmentId: "t-north" }],
+    };
+    const north = SalesDepartment.getInstance("t-north");
+    const south = SalesDepartment.getInstance("t-south");
+
+    return runAs(ana, () => [
+      north.addReport("New clients").author,
+      (${errorOf})(() => south.addReport("New clients")),
+    ]);
+  })()`);
+
+  assert.equal(result[0], "Ana");
+  assert.match(result[1], /^Ana can't call "addReport": Ana has no grant/);
+});
+
+test('"@RequirePrivilege" only works on the methods of a department', () => {
+  const { run } = loadClasses();
+  const message = run(`(() => {
+    class Notes {
+      read() {
+        return "notes";
+      }
+    }
+    const descriptor = Object.getOwnPropertyDescriptor(
+      Notes.prototype,
+      "read"
+    );
+    Object.defineProperty(
+      Notes.prototype,
+      "read",
+      RequirePrivilege("read")(Notes.prototype, "read", descriptor)
+    );
+
+    return (${errorOf})(() => new Notes().read());
+  })()`);
+
+  assert.match(message, /only works on the methods of a department/);
+});
+
+// ====================== Organization ======================
+
+// a tree of departments: "root" -> "child" -> "grandchild".
+const createTree = `(() => {
+  const organization = new Organization();
+  const root = new ITDepartment("t-root", []);
+  const child = new ITDepartment("t-child", []);
+  const grandchild = new ITDepartment("t-grandchild", []);
+  organization.register(root);
+  organization.register(child, "t-root");
+  organization.register(grandchild, "t-child");
+  return { organization, root, child, grandchild };
+})()`;
+
+test("a department can't be moved under itself", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const { organization } = ${createTree};
+    return [
+      (${errorOf})(() => organization.setParent("t-root", "t-grandchild")),
+      (${errorOf})(() => organization.setParent("t-child", "t-child")),
+      organization.getParent("t-child").departmentId,
+      organization.getRoots().map((department) => department.departmentId),
+    ];
+  })()`);
+
+  assert.match(result[0], /"t-grandchild" is under "t-root"/);
+  assert.match(result[1], /"t-child" is under "t-child"/);
+  assert.equal(result[2], "t-root");
+  assert.deepEqual(result[3], ["t-root"]);
+});
+
+test("a department with an unknown parent isn't registered", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const organization = new Organization();
+    const orphan = new ITDepartment("t-orphan", []);
+    return [
+      (${errorOf})(() => organization.register(orphan, "t-missing")),
+      (${errorOf})(() => organization.getDepartment("t-orphan")),
+    ];
+  })()`);
+
+  assert.match(result[0], /"t-missing" not found/);
+  assert.match(result[1], /"t-orphan" not found/);
+});
+
+test("the headcount counts each employee once", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const { organization, root, child, grandchild } = ${createTree};
+    const shared = Department.createEmployee("Ana");
+    root.addEmployee("Bia");
+    child.addEmployee(shared);
+    grandchild.addEmployee(shared);
+    grandchild.addEmployee("Caio");
+
+    const headcount = organization.getHeadcount("t-root");
+    return {
+      under: organization
+        .getEmployeesUnder("t-root")
+        .map((employee) => employee.name),
+      root: [headcount.own, headcount.total],
+      child: [headcount.children[0].own, headcount.children[0].total],
+      levels: organization
+        .getHeadcountByLevel()
+        .map(({ departments, headcount }) => [departments, headcount]),
+    };
+  })()`);
+
+  assert.deepEqual(result.under, ["Bia", "Ana", "Caio"]);
+  assert.deepEqual(result.root, [1, 3]);
+  assert.deepEqual(result.child, [1, 2]);
+  assert.deepEqual(result.levels, [
+    [["t-root"], 1],
+    [["t-child"], 1],
+    [["t-grandchild"], 2],
+  ]);
+});
+
+test("a moved employee gets the new primary department", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const { organization, root, child } = ${createTree};
+    const ana = Department.createEmployee("Ana");
+    root.addEmployee(ana);
+    organization.moveEmployee(ana.id, "t-root", "t-child");
+
+    return [
+      root.getEmployees().length,
+      child.findEmployeeById(ana.id) === ana,
+      ana.departmentIds,
+      ana.primaryDepartmentId,
+    ];
+  })()`);
+
+  assert.deepEqual(result, [0, true, ["t-child"], "t-child"]);
+});
+
+test("a move that can't finish changes nothing", () => {
+  const { run } = loadClasses();
+  const result = run(`(() => {
+    const { organization, root, child } = ${createTree};
+    const sales = SalesDepartment.getInstance("t-sales");
+    organization.register(sales);
+
+    const blocked = Department.createEmployee("Zé ninguém");
+    const bia = Department.createEmployee("Bia");
+    const caio = Department.createEmployee("Caio");
+    root.addEmployee(blocked);
+    root.addEmployee(bia);
+    child.addEmployee(bia);
+    child.addEmployee(caio);
+    child.closePeriod();
+
+    return {
+      rejected: (${errorOf})(() =>
+        organization.moveEmployee(blocked.id, "t-root", "t-sales")
+      ),
+      closed: (${errorOf})(() =>
+        organization.moveEmployee(caio.id, "t-child", "t-root")
+      ),
+      already: (${errorOf})(() =>
+        organization.moveEmployee(bia.id, "t-root", "t-child")
+      ),
+      blocked: [blocked.departmentIds, blocked.primaryDepartmentId],
+      caio: [caio.departmentIds, caio.primaryDepartmentId],
+      names: root.getEmployees().map((employee) => employee.name),
+    };
+  })()`);
+
+  assert.match(result.rejected, /didn't accept "Zé ninguém"/);
+  assert.match(result.closed, /is closed, can't move "Caio" out/);
+  assert.match(result.already, /"Bia" already works in department/);
+  assert.deepEqual(result.blocked, [["t-root"], "t-root"]);
+  assert.deepEqual(result.caio, [["t-child"], "t-child"]);
+  assert.deepEqual(result.names, ["Zé ninguém", "Bia"]);
+});
@@ -0,0 +1,574 @@
+// ================ Legacy And Standard Decorators Tests ================
+/**
+ * The decorators file must behave the same when it's compiled with
+ * "experimentalDecorators" (legacy decorators) and without it
+ * (standard decorators), so we run both builds of it in a fake page
+ * and compare what the examples did.
+ *
+ * Build both versions before running the tests:
+ *   tsc -p tsconfig.json
+ *   tsc -p tsconfig.standard.json
+ *   node --test test/
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import vm from "node:vm";
+
+const builds = {
+  legacy: new URL("../dist/", import.meta.url),
+  standard: new URL("../dist/standard/", import.meta.url),
+};
+
+// ======================== Fake Page ========================
+/**
+ * Just enough of the DOM for the examples of the decorators file, the
+ * elements keep their attributes, listeners and children so the tests
+ * can look at them.
+ */
+function createPage() {
+  class Node {}
+
+  class Element extends Node {
+    constructor(tagName = "div", attributes = {}) {
+      super();
+      this.tagName = tagName.toUpperCase();
+      this.attributeMap = new Map(Object.entries(attributes));
+      this.listeners = {};
+      this.children = [];
+      this.innerHTML = "";
+      this.textContent = "";
+      this.style = {};
+    }
+
+    get attributes() {
+      return Array.from(this.attributeMap, ([name, value]) => ({
+        name,
+        value,
+      }));
+    }
+
+    getAttribute(name) {
+      return this.attributeMap.get(name) ?? null;
+    }
+
+    setAttribute(name, value) {
+      const oldValue = this.getAttribute(name);
+      this.attributeMap.set(name, String(value));
+      const observed = this.constructor.observedAttributes ?? [];
+
+      if (observed.indexOf(name) !== -1) {
+        this.attributeChangedCallback?.(name, oldValue, String(value));
+      }
+    }
+
+    addEventListener(type, listener) {
+      (this.listeners[type] ??= []).push(listener);
+    }
+
+    removeEventListener(type, listener) {
+      this.listeners[type] = (this.listeners[type] ?? []).filter(
+        (current) => current !== listener
+      );
+    }
+
+    dispatch(type, event = {}) {
+      const fullEvent = {
+        type,
+        target: this,
+        preventDefault() {},
+        ...event,
+      };
+      return (this.listeners[type] ?? []).map((listener) =>
+        listener(fullEvent)
+      );
+    }
+
+    appendChild(child) {
+      this.children.push(child);
+      child.connectedCallback?.();
+      return child;
+    }
+
+    insertAdjacentElement(_position, element) {
+      this.children.push(element);
+      return element;
+    }
+
+    querySelector(selector) {
+      return this.querySelectorAll(selector)[0] ?? null;
+    }
+
+    querySelectorAll(selector) {
+      return this.children.filter((child) => child.matches?.(selector));
+    }
+
+    // only "tag", "[attribute]", "[attribute=value]" and a tag with one.
+    matches(selector) {
+      const pattern = /^(\w*)(?:\[([\w-]+)(?:="?([^"\]]*)"?)?\])?$/;
+
+      return selector.split(",").some((part) => {
+        const match = part.trim().match(pattern);
+        if (!match) return false;
+        const [, tag, attribute, value] = match;
+        return (
+          (!tag || tag.toUpperCase() === this.tagName) &&
+          (!attribute ||
+            (value === undefined
+              ? this.attributeMap.has(attribute)
+              : this.getAttribute(attribute) === value))
+        );
+      });
+    }
+
+    attachShadow() {
+      this.shadowRoot = new Element("#shadow-root");
+      return this.shadowRoot;
+    }
+  }
+
+  class HTMLElement extends Element {
+    constructor() {
+      super("custom");
+    }
+  }
+
+  class HTMLInputElement extends Element {
+    constructor(attributes) {
+      super("input", attributes);
+      this.name = attributes.name ?? "";
+      this.type = attributes.type ?? "text";
+      this.value = "";
+      this.checked = false;
+    }
+  }
+
+  class HTMLButtonElement extends Element {
+    constructor(attributes) {
+      super("button", attributes);
+      this.disabled = false;
+    }
+  }
+
+  const form = new Element("form");
+  form.appendChild(new HTMLInputElement({ type: "text", name: "title" }));
+  form.appendChild(new Element("small", { "data-error-for": "title" }));
+  form.appendChild(new HTMLInputElement({ type: "text", name: "price" }));
+  form.appendChild(new Element("small", { "data-error-for": "price" }));
+  form.appendChild(new HTMLButtonElement({ type: "submit" }));
+
+  const elementsById = new Map();
+  const registry = new Map();
+  const body = new Element("body");
+  body.appendChild(new HTMLButtonElement({}));
+  body.appendChild(form);
+
+  const document = {
+    body,
+    getElementById(id) {
+      if (!elementsById.has(id)) {
+        elementsById.set(id, new Element("div", { id }));
+      }
+      return elementsById.get(id);
+    },
+    querySelector: (selector) => body.querySelector(selector),
+    createElement(tag) {
+      const componentClass = registry.get(tag);
+      return componentClass ? new componentClass() : new Element(tag);
+    },
+  };
+
+  const customElements = {
+    get: (tag) => registry.get(tag),
+    define: (tag, componentClass) => registry.set(tag, componentClass),
+  };
+
+  return {
+    document,
+    customElements,
+    Node,
+    HTMLElement,
+    HTMLInputElement,
+    HTMLButtonElement,
+    HTMLFormElement: Element,
+    HTMLSelectElement: class extends Element {},
+    HTMLTextAreaElement: class extends Element {},
+  };
+}
+
+/**
+ * The obj-arr-tuple-enum file stops at one of its examples (it shows
+ * on purpose what TS complains about) before it declares "Role", so
+ * we only take the enum from it.
+ */
+function readScript(dir, file) {
+  const code = readFileSync(new URL(file, dir), "utf8");
+
+  if (file !== "obj-arr-tuple-enum.js") {
+    return code;
+  }
+
+  const end = "})(Role || (Role = {}));";
+  return code.slice(code.indexOf("var Role;"), code.indexOf(end) + end.length);
+}
+
+/**
+ * Runs the compiled files in a new context (a new "window"), what the
+ * examples log is kept in "logs" instead of printed.
+ */
+function loadPage(dir, files = ["decorators.js"]) {
+  const logs = [];
+  const record = (...args) => logs.push(args);
+  const context = vm.createContext({
+    ...createPage(),
+    console: { log: record, info: record, warn: record, error: record },
+    alert: record,
+    setTimeout,
+    clearTimeout,
+    queueMicrotask,
+    performance,
+    Event,
+    DOMException,
+    AbortController,
+  });
+
+  for (const file of files) {
+    vm.runInContext(readScript(dir, file), context, { filename: file });
+  }
+
+  /**
+   * The objects of the page come from another realm, so we only take
+   * JSON out of it (the assertions would compare the prototypes).
+   */
+  const run = (expression) =>
+    JSON.parse(
+      vm.runInContext(`JSON.stringify(${expression}) ?? "null"`, context)
+    );
+
+  return { context, logs, run };
+}
+
+/**
+ * What the examples did with each kind of decorator, both modes must
+ * end up with the same summary.
+ */
+async function summarize({ run, context }) {
+  // the template and component renders happen in a microtask.
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  return {
+    validation: run(`[
+      validate(new Bootcamp("TypeScript", 2000, 12)),
+      validate(new Bootcamp("", -1, 12)),
+      Object.keys(validateDetailed(new Bootcamp("", -1, 12)).messages),
+    ]`),
+    observable: vm.runInContext(
+      `(() => {
+        const product = new TaxedProduct("Book", 100, 0.1);
+        const changes = [];
+        observe(product, (change) => changes.push(change));
+        product.tax = 0.2;
+        product.tax = 0.2;
+        product.price = 150;
+        return JSON.stringify({
+          keys: Object.keys(product).sort(),
+          tax: product.tax,
+          changes: changes.map(({ oldValue, newValue }) => [
+            oldValue,
+            newValue,
+          ]),
+        });
+      })()`,
+      context
+    ),
+    autoBind: vm.runInContext(
+      `(() => {
+        const { showMessage } = new Printer();
+        return typeof showMessage === "function" && (showMessage(), true);
+      })()`,
+      context
+    ),
+    injection: ["ChickenService", "DraftArchive"].map((name) =>
+      vm.runInContext(
+        `(() => {
+          try {
+            appContainer.resolve(${name});
+            return "resolved";
+          } catch (error) {
+            return error.message;
+          }
+        })()`,
+        context
+      )
+    ),
+    serialization: run(`fromJSON(CoursePlan, JSON.stringify(plan))`),
+    component: run(`[
+      userCard.name,
+      userCard.age,
+      userCard.shadowRoot.innerHTML.indexOf("João (30 years old)") !== -1,
+    ]`),
+    // the legacy decorators of a class run in another order.
+    members: run(`getDecoratedMembers(Product).map((m) => m.name).sort()`),
+  };
+}
+
+test("legacy and standard decorators behave the same", async () => {
+  const legacy = await summarize(loadPage(builds.legacy));
+  const standard = await summarize(loadPage(builds.standard));
+
+  assert.deepEqual(standard, legacy);
+});
+
+for (const [mode, dir] of Object.entries(builds)) {
+  test(`${mode} decorators run the examples`, async () => {
+    const page = loadPage(dir);
+    const summary = await summarize(page);
+
+    assert.deepEqual(summary.validation.slice(0, 2), [true, false]);
+    assert.equal(summary.autoBind, true);
+    assert.match(summary.injection[0], /Circular dependency/);
+    assert.match(summary.injection[1], /"ReportDraft" is scoped/);
+    assert.deepEqual(summary.component, ["João", 30, true]);
+  });
+
+  test(`${mode} "@Observable" fields only notify real changes`, async () => {
+    const { observable } = await summarize(loadPage(dir));
+    const { keys, tax, changes } = JSON.parse(observable);
+
+    assert.equal(tax, 0.2);
+    assert.ok(keys.indexOf("tax") !== -1, "tax should be enumerable");
+    assert.deepEqual(changes, [
+      [0.1, 0.2],
+      [100, 150],
+    ]);
+  });
+}
+
+for (const [mode, dir] of Object.entries(builds)) {
+  test(`${mode} forms create the instance on submit`, async () => {
+    const { context, logs } = loadPage(dir);
+    const form = context.document.querySelector("form");
+    const [title, price] = form.querySelectorAll("input");
+    const button = form.querySelector('button[type="submit"]');
+
+    price.value = "-5";
+    price.dispatch("blur");
+    assert.equal(button.disabled, true);
+
+    title.value = "Advanced TypeScript";
+    price.value = "20";
+    price.dispatch("input");
+    assert.equal(button.disabled, false);
+
+    // the async rules of the title are still running.
+    const submitted = form.dispatch("submit");
+    assert.equal(button.disabled, true);
+    await Promise.all(submitted);
+    assert.equal(button.disabled, false);
+
+    const Course = vm.runInContext("Course", context);
+    const created = logs.find(([value]) => value instanceof Course);
+    assert.deepEqual({ ...created?.[0] }, {
+      title: "Advanced TypeScript",
+      price: 20,
+    });
+  });
+
+  test(`${mode} forms show the errors of the validation itself`, async () => {
+    const { context } = loadPage(dir);
+    const form = vm.runInContext(
+      `(() => {
+        class Signup {
+          name = "";
+        }
+        UniqueTitle(() => Promise.reject(new Error("Server is down")))(
+          Signup.prototype,
+          "name"
+        );
+
+        const form = new HTMLFormElement("form");
+        form.appendChild(new HTMLInputElement({ name: "name" }));
+        form.appendChild(new HTMLButtonElement({ type: "submit" }));
+        bindForm(form, Signup);
+        return form;
+      })()`,
+      context
+    );
+
+    form.querySelector("input").value = "Ana";
+    await Promise.all(form.dispatch("submit"));
+
+    const errorEl = form.querySelector("[data-form-error]");
+    assert.match(errorEl.textContent, /couldn't be validated/);
+    assert.equal(form.querySelector("button").disabled, false);
+  });
+}
+
+/**
+ * The decorators are just functions, so we call them like TS calls
+ * the legacy ones to decorate a subclass of the example classes.
+ */
+for (const [mode, dir] of Object.entries(builds)) {
+  test(`${mode} "@Groups" and "@ValidateIf" tag inherited rules`, () => {
+    const { run } = loadPage(dir);
+    const results = run(`(() => {
+      class DraftBootcamp extends Bootcamp {}
+      Groups("publish")(DraftBootcamp.prototype, "price");
+      ValidateIf((bootcamp) => bootcamp.weeks > 4)(
+        DraftBootcamp.prototype,
+        "weeks"
+      );
+
+      const draft = new DraftBootcamp("TypeScript", -1, 2.5);
+      return [
+        validate(draft),
+        validate(draft, { groups: ["draft"] }),
+        validate(new Bootcamp("TypeScript", -1, 2.5), { groups: ["draft"] }),
+      ];
+    })()`);
+
+    assert.deepEqual(results, [false, true, false]);
+  });
+}
+
+for (const [mode, dir] of Object.entries(builds)) {
+  test(`${mode} components keep the callbacks of the class`, () => {
+    const { run } = loadPage(dir);
+    const calls = run(`(() => {
+      const calls = [];
+      const Badge = Component({ tag: "test-badge", template: "<b></b>" })(
+        class extends HTMLElement {
+          connectedCallback() {
+            calls.push("connected");
+          }
+
+          disconnectedCallback() {
+            calls.push("disconnected");
+          }
+
+          onConnected() {
+            calls.push("onConnected");
+          }
+        }
+      );
+
+      const badge = new Badge();
+      badge.connectedCallback();
+      badge.disconnectedCallback();
+      return calls;
+    })()`);
+
+    assert.deepEqual(calls, ["connected", "onConnected", "disconnected"]);
+  });
+}
+
+test("templates only bind events inside of the tags", () => {
+  const { run } = loadPage(builds.legacy);
+  const events = run(`parseTemplate(
+    '<p>john@mail.com</p><a title="@home">{{name}}</a>' +
+      '<button @click="remove(\\'a,b\\', 1)">x</button>'
+  ).filter((node) => node.type === "event")`);
+
+  assert.deepEqual(events, [
+    { type: "event", event: "click", method: "remove", args: ["'a,b'", "1"] },
+  ]);
+});
+
+test("templates log the errors of a scheduled render", async () => {
+  const { context, logs } = loadPage(builds.legacy);
+  vm.runInContext(
+    `(() => {
+      const hook = document.getElementById("broken-template");
+      const todo = mountTemplate('<b @click="done">{{title}}</b>', hook, {
+        title: "Write",
+        done() {},
+      });
+      todo.done = undefined;
+    })()`,
+    context
+  );
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  const [message] = logs[logs.length - 1];
+  assert.match(message, /The template failed to render/);
+});
+
+/**
+ * "SalesDepartment" comes from the classes file, which needs the
+ * "Role" enum of the obj-arr-tuple-enum file, the decorators file only
+ * runs its serialization example when they're loaded first.
+ */
+const withClasses = ["obj-arr-tuple-enum.js", "classes.js", "decorators.js"];
+
+for (const [mode, dir] of Object.entries(builds)) {
+  test(`${mode} "SalesDepartment" round-trips through JSON`, () => {
+    const { run } = loadPage(dir, withClasses);
+    const roundTrip = run(`(() => {
+      const sales = SalesDepartment.getInstance();
+      const restored = fromJSON(SalesDepartment, JSON.stringify(sales));
+      const report = restored.searchReports({})[0];
+
+      return {
+        sameJson: JSON.stringify(restored) === JSON.stringify(sales),
+        policies: restored.getAdmissionPolicies(),
+        dates: [
+          restored.getEmployees()[0].startDate instanceof Date,
+          report.createdAt instanceof Date,
+          report.versions[0].editedAt instanceof Date,
+        ],
+        mostRecentReport: restored.mostRecentReport === sales.mostRecentReport,
+      };
+    })()`);
+
+    assert.deepEqual(roundTrip, {
+      sameJson: true,
+      policies: ["blocklist"],
+      dates: [true, true, true],
+      mostRecentReport: true,
+    });
+  });
+
+  test(`${mode} departments restore their calendar and closed periods`, () => {
+    const { run } = loadPage(dir, withClasses);
+    const restored = run(`(() => {
+      const north = SalesDepartment.getInstance("north");
+      north.fiscalCalendar = new FiscalCalendar(3, "4-4-5");
+      const key = north.closePeriod(new Date(2023, 4, 10));
+      const restored = fromJSON(SalesDepartment, JSON.stringify(north));
+      const summary = restored
+        .getPeriodSummaries(2024)
+        .find((summary) => summary.period.key === key);
+
+      return {
+        key,
+        calendar: restored.fiscalCalendar instanceof FiscalCalendar,
+        pattern: restored.fiscalCalendar.pattern,
+        start: summary.period.start instanceof Date,
+        frozen: Object.isFrozen(summary),
+        closed: restored.isPeriodClosed(new Date(2023, 4, 10)),
+      };
+    })()`);
+
+    assert.deepEqual(restored, {
+      key: "FY2024-P02",
+      calendar: true,
+      pattern: "4-4-5",
+      start: true,
+      frozen: true,
+      closed: true,
+    });
+  });
+}
+
+test("the parameter decorators run in the legacy build", () => {
+  const { run } = loadPage(builds.legacy, [
+    "decorators.js",
+    "parameter-decorators.js",
+  ]);
+
+  const members = run(`getDecoratedMembers(TaxLoggingProduct)`);
+  const method = members.find((member) => member.name === "getPriceWithtax");
+
+  assert.deepEqual(method.parameters, [0]);
+  assert.equal(run(`appContainer.resolve(ReportPrinter).region`), "BR");
+});